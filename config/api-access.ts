@@ -0,0 +1,23 @@
+// Parses "token-name=scope,scope;other-token=scope" into { 'token-name': ['scope', 'scope'], ... }
+const parseScopeMap = (value: string): Record<string, string[]> =>
+  value
+    .split(';')
+    .map((entry) => entry.split('='))
+    .filter(([name, scopes]) => name?.trim() && scopes?.trim())
+    .reduce((map, [name, scopes]) => ({
+      ...map,
+      [name.trim()]: scopes.split(',').map((scope) => scope.trim()).filter(Boolean),
+    }), {} as Record<string, string[]>);
+
+export default ({ env }) => ({
+  // Scopes checked by the global::has-scope policy on the import, job and newsletter endpoints:
+  // 'import:run', 'jobs:manage' and 'newsletter:send'
+  //
+  // Full-access API tokens and super admins hold every scope. Other API tokens get the
+  // scopes listed for their name in API_TOKEN_SCOPES
+  tokenScopes: parseScopeMap(env('API_TOKEN_SCOPES', '')),
+  // Scopes granted to admin panel users by role code
+  adminRoleScopes: {
+    'strapi-editor': ['import:run', 'newsletter:send'],
+  },
+});
@@ -0,0 +1,22 @@
+export default ({ env }) => ({
+  // Which LLM provider the import pipeline and the ai-text-generation plugin share:
+  // 'gemini', 'openai' (any OpenAI-compatible chat completions API) or 'mock'
+  provider: env('LLM_PROVIDER', 'gemini'),
+  defaults: {
+    temperature: env.float('LLM_TEMPERATURE', 0.1),
+    maxOutputTokens: env.int('LLM_MAX_OUTPUT_TOKENS', 8192),
+    timeoutMs: env.int('LLM_TIMEOUT_MS', 120000),
+  },
+  gemini: {
+    apiKey: env('GEMINI_API_KEY'),
+    model: env('GEMINI_MODEL', 'gemini-2.5-flash-lite'),
+  },
+  openai: {
+    apiKey: env('OPENAI_API_KEY'),
+    baseUrl: env('OPENAI_BASE_URL', 'https://api.openai.com/v1'),
+    model: env('OPENAI_MODEL', 'gpt-4o-mini'),
+  },
+  mock: {
+    model: 'mock-deterministic',
+  },
+});
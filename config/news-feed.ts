@@ -0,0 +1,54 @@
+export default ({ env }) => ({
+  // Near-duplicate story detection applied when imported articles are saved
+  duplicates: {
+    enabled: env.bool('NEWS_DUPLICATES_ENABLED', true),
+    // Only articles created within this window are compared
+    windowHours: env.int('NEWS_DUPLICATES_WINDOW_HOURS', 72),
+    // Jaccard similarity of title shingles at or above which stories match
+    titleThreshold: env.float('NEWS_DUPLICATES_TITLE_THRESHOLD', 0.6),
+    // Maximum Hamming distance between 64-bit content simhashes
+    simhashDistance: env.int('NEWS_DUPLICATES_SIMHASH_DISTANCE', 3),
+  },
+  // How much of the import pipeline runs at once
+  pipeline: {
+    // Feed items processed at the same time
+    concurrency: env.int('NEWS_PIPELINE_CONCURRENCY', 4),
+    // Link resolutions and page extractions against the same host at the same time
+    perHostConcurrency: env.int('NEWS_PIPELINE_PER_HOST_CONCURRENCY', 2),
+    // LLM calls at the same time, across all items
+    aiConcurrency: env.int('NEWS_PIPELINE_AI_CONCURRENCY', 2),
+  },
+  // Google News link resolution
+  resolution: {
+    // How long a resolved publisher URL is reused before Google is asked again
+    cacheTtlHours: env.int('NEWS_RESOLUTION_CACHE_TTL_HOURS', 720),
+  },
+  // Responsive copies of imported featured images
+  images: {
+    // Widths in pixels; images are never enlarged
+    breakpoints: env.array('NEWS_IMAGE_BREAKPOINTS', ['320', '640', '1024', '1600']).map(Number),
+    // In order of preference, the last one is the <img> fallback
+    formats: env.array('NEWS_IMAGE_FORMATS', ['avif', 'webp']),
+    quality: {
+      webp: env.int('NEWS_IMAGE_WEBP_QUALITY', 80),
+      avif: env.int('NEWS_IMAGE_AVIF_QUALITY', 50),
+    },
+    thumbnail: {
+      width: env.int('NEWS_IMAGE_THUMBNAIL_WIDTH', 400),
+      height: env.int('NEWS_IMAGE_THUMBNAIL_HEIGHT', 225),
+    },
+  },
+  // Database-backed import queue shared by every Strapi instance
+  queue: {
+    // How often the leader checks for queued imports
+    pollIntervalMs: env.int('NEWS_QUEUE_POLL_INTERVAL_MS', 5000),
+    // A running job is reclaimed if its worker stops renewing the lease for this long
+    leaseMs: env.int('NEWS_QUEUE_LEASE_MS', 120000),
+    // Claims per job before a repeatedly abandoned job is failed
+    maxAttempts: env.int('NEWS_QUEUE_MAX_ATTEMPTS', 3),
+    // Leadership lease; only the leader fires cron schedules and runs queued imports
+    leaderLeaseMs: env.int('NEWS_LEADER_LEASE_MS', 30000),
+    // How often the leader re-reads the stored import jobs, so edits made through any instance are picked up
+    scheduleSyncMs: env.int('NEWS_SCHEDULE_SYNC_MS', 60000),
+  },
+});
@@ -1,5 +1,5 @@
 import type { StrapiApp } from '@strapi/strapi/admin';
-import { Mail } from '@strapi/icons';
+import { Mail, CheckCircle } from '@strapi/icons';
 
 export default {
   config: {
@@ -24,6 +24,22 @@ export default {
       ],
     });
 
+    app.addMenuLink({
+      to: '/review-queue',
+      icon: CheckCircle,
+      intlLabel: {
+        id: 'review-queue.title',
+        defaultMessage: 'Review Queue',
+      },
+      Component: async () => {
+        const component = await import('./pages/ReviewQueue');
+        return component;
+      },
+      permissions: [
+        { action: 'plugin::content-manager.explorer.publish', subject: 'api::article.article' }
+      ],
+    });
+
     app.registerPlugin({
       id: 'newsletter',
       name: 'Newsletter',
@@ -0,0 +1,312 @@
+import * as React from 'react';
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Textarea,
+  Grid,
+  Alert,
+  Flex,
+  Typography,
+  Main,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Td,
+  Th,
+  Badge,
+  Field,
+} from '@strapi/design-system';
+import { ArrowClockwise, Check, Cross, Pencil } from '@strapi/icons';
+import { useFetchClient } from '@strapi/strapi/admin';
+
+// Draft as returned by GET /api/review-queue
+interface DraftSummary {
+  id: number;
+  documentId: string;
+  title: string;
+  excerpt?: string;
+  sourceUrl?: string;
+  reviewState: 'pending' | 'approved' | 'rejected' | 'needs-edit';
+  reviewNotes?: string;
+  createdAt: string;
+  category?: { name: string } | null;
+}
+
+interface DraftDetail {
+  article: DraftSummary & {
+    content: string;
+    seoTitle?: string;
+    seoDescription?: string;
+    location?: string;
+  };
+  source: {
+    title: string | null;
+    url: string | null;
+    extractedContent: string | null;
+  };
+}
+
+interface MessageResult {
+  type: 'success' | 'error';
+  message: string;
+}
+
+type ReviewAction = 'approve' | 'reject' | 'needs-edit';
+
+const ReviewQueueApp: React.FC = () => {
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [selected, setSelected] = useState<DraftDetail | null>(null);
+  const [notes, setNotes] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [result, setResult] = useState<MessageResult | null>(null);
+
+  const { get, post } = useFetchClient();
+
+  const loadQueue = async () => {
+    try {
+      const response = await get('/api/review-queue?state=pending&pageSize=100');
+      const payload: any = response?.data ?? response;
+      setDrafts(Array.isArray(payload?.data) ? payload.data : []);
+    } catch (error: unknown) {
+      console.error('Error fetching review queue:', error);
+      setResult({ type: 'error', message: 'Failed to fetch the review queue.' });
+      setDrafts([]);
+    }
+  };
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchData = async () => {
+      if (!isMounted) return;
+      await loadQueue();
+    };
+
+    fetchData();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const handleSelect = async (id: number): Promise<void> => {
+    try {
+      const response = await get(`/api/review-queue/${id}`);
+      const payload: any = response?.data ?? response;
+      setSelected(payload?.data ?? null);
+      setNotes(payload?.data?.article?.reviewNotes || '');
+    } catch (error: unknown) {
+      console.error('Error fetching draft:', error);
+      setResult({ type: 'error', message: 'Failed to load the draft.' });
+    }
+  };
+
+  const handleDecision = async (action: ReviewAction): Promise<void> => {
+    if (!selected) return;
+
+    setLoading(true);
+    try {
+      const response = await post(`/api/review-queue/${selected.article.id}/${action}`, { notes });
+      const payload: any = response?.data ?? response;
+
+      setResult({ type: 'success', message: payload?.message || 'Review saved' });
+      setSelected(null);
+      setNotes('');
+      await loadQueue();
+    } catch (error: any) {
+      console.error('Review action failed:', error);
+      setResult({ type: 'error', message: error?.response?.data?.message || 'Review action failed' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Main>
+      <Box padding={8} background="neutral100">
+        <Flex justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="alpha" marginBottom={2}>
+              Review Queue
+            </Typography>
+            <Typography variant="omega" textColor="neutral600">
+              Check AI-generated drafts against their source before they are published
+            </Typography>
+          </Box>
+          <Button
+            onClick={loadQueue}
+            startIcon={<ArrowClockwise />}
+            variant="tertiary"
+          >
+            Refresh
+          </Button>
+        </Flex>
+      </Box>
+
+      {result && (
+        <Box padding={4}>
+          <Alert
+            title={result.type === 'success' ? 'Success' : 'Error'}
+            variant={result.type === 'success' ? 'success' : 'danger'}
+            onClose={() => setResult(null)}
+            closeLabel="Close"
+          >
+            {result.message}
+          </Alert>
+        </Box>
+      )}
+
+      <Box padding={4}>
+        {selected ? (
+          <Box padding={4} background="neutral0" hasRadius shadow="tableShadow">
+            <Flex justifyContent="space-between" alignItems="center" marginBottom={4}>
+              <Typography variant="beta">{selected.article.title}</Typography>
+              <Button variant="tertiary" onClick={() => setSelected(null)}>
+                Back to queue
+              </Button>
+            </Flex>
+
+            <Grid.Root gap={4}>
+              <Grid.Item col={6} s={12} direction="column" alignItems="stretch">
+                <Typography variant="delta" marginBottom={2}>
+                  AI draft
+                </Typography>
+                {selected.article.excerpt && (
+                  <Box marginBottom={2}>
+                    <Typography variant="omega" textColor="neutral600">
+                      {selected.article.excerpt}
+                    </Typography>
+                  </Box>
+                )}
+                <Box padding={4} background="neutral100" hasRadius style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+                  <div dangerouslySetInnerHTML={{ __html: selected.article.content || '' }} />
+                </Box>
+              </Grid.Item>
+              <Grid.Item col={6} s={12} direction="column" alignItems="stretch">
+                <Typography variant="delta" marginBottom={2}>
+                  Source extract
+                </Typography>
+                {selected.source.url && (
+                  <Box marginBottom={2}>
+                    <Typography variant="omega" textColor="neutral600">
+                      <a href={selected.source.url} target="_blank" rel="noopener noreferrer">
+                        {selected.source.title || selected.source.url}
+                      </a>
+                    </Typography>
+                  </Box>
+                )}
+                <Box padding={4} background="neutral100" hasRadius style={{ maxHeight: '60vh', overflowY: 'auto', whiteSpace: 'pre-wrap' }}>
+                  <Typography variant="omega">
+                    {selected.source.extractedContent || 'No source extract was stored for this draft.'}
+                  </Typography>
+                </Box>
+              </Grid.Item>
+            </Grid.Root>
+
+            <Box marginTop={4}>
+              <Field.Root name="reviewNotes">
+                <Field.Label>Review notes</Field.Label>
+                <Textarea
+                  name="reviewNotes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Notes for the editor (optional)"
+                  rows={4}
+                />
+                <Field.Hint />
+              </Field.Root>
+            </Box>
+
+            <Flex marginTop={4} gap={2}>
+              <Button
+                onClick={() => handleDecision('approve')}
+                loading={loading}
+                startIcon={<Check />}
+                variant="success"
+              >
+                Approve and publish
+              </Button>
+              <Button
+                onClick={() => handleDecision('needs-edit')}
+                loading={loading}
+                startIcon={<Pencil />}
+                variant="secondary"
+              >
+                Needs edit
+              </Button>
+              <Button
+                onClick={() => handleDecision('reject')}
+                loading={loading}
+                startIcon={<Cross />}
+                variant="danger"
+              >
+                Reject
+              </Button>
+            </Flex>
+          </Box>
+        ) : (
+          <Box padding={4} background="neutral0" hasRadius shadow="tableShadow">
+            <Typography variant="beta" marginBottom={4}>
+              Pending drafts
+            </Typography>
+
+            {drafts.length > 0 ? (
+              <Table colCount={4} rowCount={drafts.length + 1}>
+                <Thead>
+                  <Tr>
+                    <Th>
+                      <Typography variant="sigma">Title</Typography>
+                    </Th>
+                    <Th>
+                      <Typography variant="sigma">Category</Typography>
+                    </Th>
+                    <Th>
+                      <Typography variant="sigma">Imported</Typography>
+                    </Th>
+                    <Th>
+                      <Typography variant="sigma">State</Typography>
+                    </Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {drafts.map((draft) => (
+                    <Tr key={draft.id} onClick={() => handleSelect(draft.id)} style={{ cursor: 'pointer' }}>
+                      <Td>
+                        <Typography textColor="neutral800">
+                          {draft.title || 'Untitled'}
+                        </Typography>
+                      </Td>
+                      <Td>
+                        <Typography textColor="neutral600">
+                          {draft.category?.name || '-'}
+                        </Typography>
+                      </Td>
+                      <Td>
+                        <Typography textColor="neutral600">
+                          {new Date(draft.createdAt).toLocaleString()}
+                        </Typography>
+                      </Td>
+                      <Td>
+                        <Badge>{draft.reviewState}</Badge>
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            ) : (
+              <Box textAlign="center" padding={8}>
+                <Typography variant="omega" textColor="neutral500">
+                  No drafts are waiting for review.
+                </Typography>
+              </Box>
+            )}
+          </Box>
+        )}
+      </Box>
+    </Main>
+  );
+};
+
+export default ReviewQueueApp;
@@ -0,0 +1,87 @@
+/**
+ * article-source service
+ */
+
+import { factories } from '@strapi/strapi';
+import { createHash } from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
+import type { ExtractedPage, ExtractionMethod } from '../../../services/google-news-feed';
+
+export interface SourceSnapshot {
+  id: number;
+  url: string;
+  html: string;
+  text: string;
+  extractionMethod?: ExtractionMethod | null;
+  fetchedAt: string;
+}
+
+const compress = (value: string): string => gzipSync(Buffer.from(value || '', 'utf8')).toString('base64');
+
+const decompress = (value?: string | null): string => value ? gunzipSync(Buffer.from(value, 'base64')).toString('utf8') : '';
+
+export default factories.createCoreService('api::article-source.article-source', ({ strapi }) => ({
+  /**
+   * Store the fetched page, compressed, before the AI rewrites it
+   */
+  async createSnapshot(url: string, page: ExtractedPage) {
+    return await strapi.entityService.create('api::article-source.article-source', {
+      data: {
+        url,
+        rawHtml: compress(page.html),
+        readableText: compress(page.text),
+        compression: 'gzip-base64',
+        extractionMethod: page.method ?? null,
+        htmlLength: page.html.length,
+        textLength: page.text.length,
+        contentHash: createHash('sha256').update(page.text).digest('hex'),
+        fetchedAt: new Date()
+      }
+    });
+  },
+
+  /**
+   * Link the most recent unclaimed snapshot of a URL to the article generated from it
+   */
+  async attachToArticle(url: string, articleId: number) {
+    const snapshots = await strapi.entityService.findMany('api::article-source.article-source', {
+      filters: { url, article: { id: { $null: true } } },
+      sort: { fetchedAt: 'desc' },
+      fields: ['id'],
+      limit: 1
+    }) as any[];
+
+    if (!snapshots?.length) {
+      return null;
+    }
+
+    return await strapi.entityService.update('api::article-source.article-source', snapshots[0].id, {
+      data: { article: articleId }
+    });
+  },
+
+  /**
+   * The decompressed snapshot an article was generated from
+   */
+  async findForArticle(articleId: number): Promise<SourceSnapshot | null> {
+    const snapshots = await strapi.entityService.findMany('api::article-source.article-source', {
+      filters: { article: { id: articleId } },
+      sort: { fetchedAt: 'desc' },
+      limit: 1
+    }) as any[];
+
+    const snapshot = snapshots?.[0];
+    if (!snapshot) {
+      return null;
+    }
+
+    return {
+      id: snapshot.id,
+      url: snapshot.url,
+      html: decompress(snapshot.rawHtml),
+      text: decompress(snapshot.readableText),
+      extractionMethod: snapshot.extractionMethod,
+      fetchedAt: snapshot.fetchedAt
+    };
+  }
+}));
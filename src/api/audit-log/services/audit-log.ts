@@ -0,0 +1,7 @@
+/**
+ * audit-log service
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreService('api::audit-log.audit-log');
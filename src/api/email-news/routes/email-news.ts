@@ -6,7 +6,7 @@ export default {
       handler: 'api::email-news.email-news.send',
       config: {
         auth: false,
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'newsletter:send' } }],
         middlewares: [],
       },
     },
@@ -16,7 +16,7 @@ export default {
       handler: 'api::email-news.email-news.sendNewsletter',
       config: {
         auth: false,
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'newsletter:send' } }],
         middlewares: [],
       },
     },
@@ -1,6 +1,6 @@
 /**
  * Enhanced News Controller
- * Handles synchronous RSS processing with all 5 phases
+ * Queues full RSS processing runs and processes single categories synchronously
  */
 
 // Enhanced News Controller - Standalone controller for RSS processing
@@ -27,63 +27,32 @@ interface Article {
 export default ({ strapi }) => ({
   
   /**
-   * Process all categories synchronously
+   * Queue an import of all categories. Responds with the job to poll instead of waiting for it
    */
   async processSynchronous(ctx) {
     try {
-      const { maxArticlesPerCategory = 5 } = ctx.request.body;
+      const { maxArticlesPerCategory = 5 } = ctx.request.body || {};
 
-      strapi.log.info('🚀 Starting enhanced synchronous processing for all categories');
+      const categories: string[] = await strapi.service('api::feed-source.feed-source').getEnabledCategoryNames();
 
-      // Import the enhanced sync pipeline
-      const { EnhancedSyncPipeline } = await import('../../../services/enhanced-sync-pipeline');
-      const pipeline = new EnhancedSyncPipeline(strapi);
+      strapi.log.info('🚀 Queueing enhanced processing for all categories');
 
-      // Process all categories
-      const results = await pipeline.processAllCategoriesSync(maxArticlesPerCategory);
-
-      // Calculate summary statistics
-      let totalProcessed = 0;
-      let totalSuccessful = 0;
-      const categoryStats = {};
-
-      for (const [category, categoryResults] of results) {
-        const successful = categoryResults.filter(r => r.success).length;
-        const total = categoryResults.length;
-        
-        totalProcessed += total;
-        totalSuccessful += successful;
-        
-        categoryStats[category] = {
-          total,
-          successful,
-          failed: total - successful,
-          successRate: total > 0 ? Math.round((successful / total) * 100) : 0,
-          articles: categoryResults.map(r => ({
-            title: r.originalTitle,
-            success: r.success,
-            articleId: r.articleId,
-            error: r.error,
-            processingTime: r.processingTime
-          }))
-        };
-      }
+      const { getNewsCronJobService } = await import('../../../services/news-cron-job');
+      const job = await getNewsCronJobService().triggerManualImport(categories, maxArticlesPerCategory, 'api', 'enhanced-sync');
 
+      ctx.status = 202;
       ctx.body = {
         success: true,
-        message: 'Enhanced synchronous processing completed',
-        summary: {
-          totalProcessed,
-          totalSuccessful,
-          totalFailed: totalProcessed - totalSuccessful,
-          overallSuccessRate: totalProcessed > 0 ? Math.round((totalSuccessful / totalProcessed) * 100) : 0
-        },
-        categories: categoryStats,
+        message: 'Enhanced processing queued',
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/news-feed/jobs/${job.id}`,
+        categories,
         timestamp: new Date().toISOString()
       };
 
     } catch (error) {
-      strapi.log.error('Enhanced synchronous processing failed:', error);
+      strapi.log.error('Failed to queue enhanced processing:', error);
       
       ctx.status = 500;
       ctx.body = {
@@ -110,8 +79,10 @@ export default ({ strapi }) => ({
         return;
       }
 
-      const validCategories = ['technology', 'business', 'sports', 'entertainment', 'health', 'science'];
-      if (!validCategories.includes(category.toLowerCase())) {
+      // Valid categories are the ones with an enabled feed source
+      const validCategories: string[] = await strapi.service('api::feed-source.feed-source').getEnabledCategoryNames();
+      const categoryName = validCategories.find(name => name.toLowerCase() === category.toLowerCase());
+      if (!categoryName) {
         ctx.status = 400;
         ctx.body = {
           success: false,
@@ -120,35 +91,43 @@ export default ({ strapi }) => ({
         return;
       }
 
-      strapi.log.info(`🚀 Starting enhanced synchronous processing for category: ${category}`);
+      strapi.log.info(`🚀 Starting enhanced synchronous processing for category: ${categoryName}`);
 
       // Import the enhanced sync pipeline
       const { EnhancedSyncPipeline } = await import('../../../services/enhanced-sync-pipeline');
       const pipeline = new EnhancedSyncPipeline(strapi);
 
       // Process the specific category
-      const results = await pipeline.processCategorySync(category.toLowerCase(), maxArticles);
+      const results = await pipeline.processCategorySync(categoryName, maxArticles);
 
       // Calculate statistics
-      const successful = results.filter(r => r.success).length;
+      const successful = results.filter(r => r.status === 'imported').length;
+      const skipped = results.filter(r => r.status === 'skipped').length;
       const total = results.length;
 
       ctx.body = {
         success: true,
-        message: `Enhanced synchronous processing completed for ${category}`,
-        category: category.toLowerCase(),
+        message: `Enhanced synchronous processing completed for ${categoryName}`,
+        category: categoryName,
         summary: {
           total,
           successful,
-          failed: total - successful,
+          skipped,
+          failed: total - successful - skipped,
           successRate: total > 0 ? Math.round((successful / total) * 100) : 0
         },
         articles: results.map(r => ({
           title: r.originalTitle,
+          status: r.status,
           success: r.success,
+          link: r.link,
+          resolvedUrl: r.resolvedUrl,
           articleId: r.articleId,
+          documentId: r.articleDocumentId,
+          skipReason: r.skipReason,
           error: r.error,
-          processingTime: r.processingTime
+          processingTime: r.processingTime,
+          stageTimings: r.stageTimings
         })),
         timestamp: new Date().toISOString()
       };
@@ -186,7 +165,7 @@ export default ({ strapi }) => ({
 
       // Group by category
       const categoryStats: Record<string, CategoryStats> = {};
-      const categories = ['technology', 'business', 'sports', 'entertainment', 'health', 'science'];
+      const categories: string[] = await strapi.service('api::feed-source.feed-source').getEnabledCategoryNames();
       
       categories.forEach(cat => {
         categoryStats[cat] = {
@@ -196,7 +175,7 @@ export default ({ strapi }) => ({
       });
 
       recentArticles.forEach(article => {
-        const category = (article.category as any)?.toLowerCase() || 'uncategorized';
+        const category = (article.category as any)?.name || 'uncategorized';
         if (categoryStats[category]) {
           categoryStats[category].count++;
           categoryStats[category].articles.push({
@@ -208,6 +187,9 @@ export default ({ strapi }) => ({
         }
       });
 
+      const { getLLMProvider } = await import('../../../services/llm-provider');
+      const llmProvider = getLLMProvider(strapi);
+
       ctx.body = {
         success: true,
         status: 'operational',
@@ -218,7 +200,8 @@ export default ({ strapi }) => ({
         },
         categories: categoryStats,
         systemInfo: {
-          geminiAIAvailable: !!process.env.GEMINI_API_KEY,
+          llmProvider: llmProvider.name,
+          llmAvailable: llmProvider.isConfigured(),
           supportedCategories: categories
         },
         timestamp: new Date().toISOString()
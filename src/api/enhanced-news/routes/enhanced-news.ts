@@ -5,7 +5,7 @@ export default {
       path: '/enhanced-news/process-sync',
       handler: 'enhanced-news.processSynchronous',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
         middlewares: [],
         auth: false,
       },
@@ -15,7 +15,7 @@ export default {
       path: '/enhanced-news/process-category',
       handler: 'enhanced-news.processCategory',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
         middlewares: [],
         auth: false,
       },
@@ -25,7 +25,7 @@ export default {
       path: '/enhanced-news/status',
       handler: 'enhanced-news.getStatus',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
         middlewares: [],
         auth: false,
       },
@@ -0,0 +1,7 @@
+/**
+ * feed-source controller
+ */
+
+import { factories } from '@strapi/strapi'
+
+export default factories.createCoreController('api::feed-source.feed-source');
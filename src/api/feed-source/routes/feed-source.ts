@@ -0,0 +1,7 @@
+/**
+ * feed-source router
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::feed-source.feed-source');
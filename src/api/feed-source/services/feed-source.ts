@@ -0,0 +1,171 @@
+/**
+ * feed-source service
+ */
+
+import { factories } from '@strapi/strapi';
+
+export interface FeedSource {
+  id: number;
+  documentId?: string;
+  label: string;
+  url: string;
+  language?: string | null;
+  region?: string | null;
+  enabled: boolean;
+  maxItems: number;
+  // Items published longer ago than this are skipped
+  maxAgeHours?: number | null;
+  priority: number;
+  category?: {
+    id: number;
+    name: string;
+  } | null;
+  // State of the last fetch, reset when the fetch URL changes
+  fetchedUrl?: string | null;
+  etag?: string | null;
+  lastModified?: string | null;
+  lastFetchedAt?: string | null;
+  // GUIDs (or links) of items already handed to the pipeline, newest first
+  seenGuids?: string[] | null;
+}
+
+export interface FeedFetchState {
+  fetchedUrl: string;
+  etag: string | null;
+  lastModified: string | null;
+  // Items handed to the pipeline by this fetch
+  handedGuids: string[];
+}
+
+// Comfortably more than one feed lists, so nothing still in the feed is forgotten
+const MAX_SEEN_GUIDS = 500;
+
+const GOOGLE_NEWS_RSS = 'https://news.google.com/rss';
+
+// Feeds seeded on first boot so a fresh database keeps importing the same
+// categories the hardcoded map used to provide
+const DEFAULT_FEED_SOURCES = [
+  {
+    label: 'Google News - World',
+    url: `${GOOGLE_NEWS_RSS}/topics/CAAqJggKIiBDQkFTRWdvSUwyMHZNRGx1YlY4U0FtVnVHZ0pWVXlnQVAB?hl=en-US&gl=US&ceid=US:en`,
+    category: 'World',
+    language: 'en-US',
+    region: 'US'
+  },
+  {
+    label: 'Google News - Australia',
+    url: `${GOOGLE_NEWS_RSS}/search?q=Australia+news&hl=en-AU&gl=AU&ceid=AU:en`,
+    category: 'Australia',
+    language: 'en-AU',
+    region: 'AU'
+  },
+  {
+    label: 'Google News - Culture',
+    url: `${GOOGLE_NEWS_RSS}/topics/CAAqJggKIiBDQkFTRWdvSUwyMHZNREpxYW5RU0FtVnVHZ0pWVXlnQVAB?hl=en-US&gl=US&ceid=US:en`,
+    category: 'Culture',
+    language: 'en-US',
+    region: 'US'
+  },
+  {
+    label: 'Google News - Sport',
+    url: `${GOOGLE_NEWS_RSS}/topics/CAAqJggKIiBDQkFTRWdvSUwyMHZNRFp1ZEdvU0FtVnVHZ0pWVXlnQVAB?hl=en-US&gl=US&ceid=US:en`,
+    category: 'Sport',
+    language: 'en-US',
+    region: 'US'
+  }
+];
+
+export default factories.createCoreService('api::feed-source.feed-source', ({ strapi }) => ({
+  /**
+   * Get enabled feed sources, highest priority first, optionally limited to one category
+   */
+  async findEnabled(categoryName?: string): Promise<FeedSource[]> {
+    const filters: Record<string, any> = { enabled: true };
+    if (categoryName) {
+      filters.category = { name: categoryName };
+    }
+
+    const sources = await strapi.entityService.findMany('api::feed-source.feed-source', {
+      filters,
+      sort: { priority: 'desc' },
+      populate: ['category']
+    });
+
+    return (sources || []) as unknown as FeedSource[];
+  },
+
+  /**
+   * Get the names of all categories that have at least one enabled feed source
+   */
+  async getEnabledCategoryNames(): Promise<string[]> {
+    const sources = await this.findEnabled();
+    const names = sources
+      .map(source => source.category?.name)
+      .filter((name): name is string => !!name);
+
+    return [...new Set(names)];
+  },
+
+  /**
+   * Record a fetch: the validators to send next time and the items it handed on
+   */
+  async recordFetch(source: FeedSource, state: FeedFetchState): Promise<void> {
+    const previous = source.fetchedUrl === state.fetchedUrl ? source.seenGuids || [] : [];
+    const seenGuids = [...new Set([...state.handedGuids, ...previous])].slice(0, MAX_SEEN_GUIDS);
+
+    await strapi.entityService.update('api::feed-source.feed-source', source.id, {
+      data: {
+        fetchedUrl: state.fetchedUrl,
+        etag: state.etag,
+        lastModified: state.lastModified,
+        lastFetchedAt: new Date(),
+        seenGuids
+      }
+    });
+  },
+
+  /**
+   * Seed the default feed sources when the collection is empty
+   */
+  async seedDefaults(): Promise<number> {
+    const existing = await strapi.entityService.count('api::feed-source.feed-source');
+    if (existing > 0) {
+      return 0;
+    }
+
+    for (const [index, feed] of DEFAULT_FEED_SOURCES.entries()) {
+      let categories = await strapi.entityService.findMany('api::category.category', {
+        filters: { name: feed.category },
+        limit: 1
+      }) as any[];
+
+      let category = categories?.[0];
+      if (!category) {
+        const slug = feed.category.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+        category = await strapi.entityService.create('api::category.category', {
+          data: {
+            name: feed.category,
+            slug,
+            description: `${feed.category} news articles`
+          }
+        });
+      }
+
+      await strapi.entityService.create('api::feed-source.feed-source', {
+        data: {
+          label: feed.label,
+          url: feed.url,
+          category: category.id,
+          language: feed.language,
+          region: feed.region,
+          enabled: true,
+          maxItems: 10,
+          priority: DEFAULT_FEED_SOURCES.length - index
+        }
+      });
+    }
+
+    strapi.log.info(`Seeded ${DEFAULT_FEED_SOURCES.length} default feed sources`);
+    return DEFAULT_FEED_SOURCES.length;
+  }
+}));
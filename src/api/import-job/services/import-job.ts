@@ -0,0 +1,197 @@
+/**
+ * import-job service
+ */
+
+import { factories } from '@strapi/strapi';
+import * as cron from 'node-cron';
+
+export interface ImportJobDefinition {
+  id: number;
+  documentId?: string;
+  name: string;
+  schedule: string;
+  timezone: string;
+  categories?: string[] | null;
+  feedSources?: Array<{
+    id: number;
+    label: string;
+    category?: { id: number; name: string } | null;
+  }>;
+  maxArticlesPerCategory: number;
+  maxAgeHours?: number | null;
+  enabled: boolean;
+}
+
+export interface ImportJobInput {
+  name?: string;
+  schedule?: string;
+  timezone?: string;
+  categories?: string[];
+  feedSources?: number[];
+  maxArticlesPerCategory?: number;
+  // Null removes the limit
+  maxAgeHours?: number | null;
+  enabled?: boolean;
+}
+
+const DEFAULT_CATEGORIES = ['World', 'Australia', 'Culture', 'Sport'];
+
+// Jobs seeded on first boot, matching the schedules that used to be hardcoded in NewsCronJobService
+const DEFAULT_IMPORT_JOBS: ImportJobInput[] = [
+  {
+    // Every 2 hours - primary job
+    name: 'allowedCategoriesEvery2Hours',
+    schedule: '0 */2 * * *',
+    timezone: 'UTC',
+    categories: DEFAULT_CATEGORIES,
+    maxArticlesPerCategory: 8,
+    enabled: true
+  },
+  {
+    // Every 6 hours at minute 30, offset from the primary job
+    name: 'allowedCategoriesBackup',
+    schedule: '30 */6 * * *',
+    timezone: 'UTC',
+    categories: DEFAULT_CATEGORIES,
+    maxArticlesPerCategory: 5,
+    enabled: true
+  }
+];
+
+// Records whether scheduling was stopped through the API, shared by every instance
+const SCHEDULING_STORE = { type: 'api', name: 'import-job', key: 'scheduling' };
+
+const POPULATE = {
+  feedSources: {
+    fields: ['label'],
+    populate: { category: { fields: ['name'] } }
+  }
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export default factories.createCoreService('api::import-job.import-job', ({ strapi }) => ({
+  /**
+   * All job definitions, by name
+   */
+  async findDefinitions(): Promise<ImportJobDefinition[]> {
+    const jobs = await strapi.entityService.findMany('api::import-job.import-job', {
+      sort: { name: 'asc' },
+      populate: POPULATE
+    } as any);
+
+    return (jobs || []) as unknown as ImportJobDefinition[];
+  },
+
+  /**
+   * A single job definition
+   */
+  async findDefinition(id: number): Promise<ImportJobDefinition | null> {
+    const job = await strapi.entityService.findOne('api::import-job.import-job', id, {
+      populate: POPULATE
+    } as any);
+
+    return (job || null) as unknown as ImportJobDefinition | null;
+  },
+
+  /**
+   * A single job definition looked up by its unique name
+   */
+  async findDefinitionByName(name: string): Promise<ImportJobDefinition | null> {
+    const jobs = await strapi.entityService.findMany('api::import-job.import-job', {
+      filters: { name },
+      populate: POPULATE,
+      limit: 1
+    } as any) as any[];
+
+    return (jobs?.[0] || null) as ImportJobDefinition | null;
+  },
+
+  /**
+   * Whether scheduling was stopped through the API. The flag is stored, so it holds on
+   * every instance and across restarts until scheduling is started again
+   */
+  async isSchedulingStopped(): Promise<boolean> {
+    const state = await strapi.store(SCHEDULING_STORE).get() as { stopped?: boolean } | null;
+    return !!state?.stopped;
+  },
+
+  async setSchedulingStopped(stopped: boolean): Promise<void> {
+    await strapi.store(SCHEDULING_STORE).set({ value: { stopped } });
+  },
+
+  /**
+   * Check a create payload, or an update payload against the job it changes, returning
+   * the problems found
+   */
+  validateInput(input: ImportJobInput, existing: ImportJobDefinition | null = null): string[] {
+    const errors: string[] = [];
+    const isCreate = !existing;
+
+    if (isCreate || input.name !== undefined) {
+      if (typeof input.name !== 'string' || !input.name.trim() || input.name.length > 100) {
+        errors.push('name must be a non-empty string of at most 100 characters');
+      }
+    }
+    if (isCreate || input.schedule !== undefined) {
+      if (typeof input.schedule !== 'string' || !cron.validate(input.schedule)) {
+        errors.push(`schedule must be a valid cron expression`);
+      }
+    }
+    if (input.timezone !== undefined && (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone))) {
+      errors.push('timezone must be an IANA time zone, e.g. "UTC" or "Australia/Sydney"');
+    }
+    if (input.categories !== undefined && (!Array.isArray(input.categories) || input.categories.some(c => typeof c !== 'string'))) {
+      errors.push('categories must be an array of category names');
+    }
+    if (input.feedSources !== undefined && (!Array.isArray(input.feedSources) || input.feedSources.some(id => !Number.isInteger(id)))) {
+      errors.push('feedSources must be an array of feed source ids');
+    }
+    if (input.maxArticlesPerCategory !== undefined) {
+      const max = input.maxArticlesPerCategory;
+      if (!Number.isInteger(max) || max < 1 || max > 100) {
+        errors.push('maxArticlesPerCategory must be an integer between 1 and 100');
+      }
+    }
+    if (input.maxAgeHours !== undefined && input.maxAgeHours !== null) {
+      if (!Number.isInteger(input.maxAgeHours) || input.maxAgeHours < 1) {
+        errors.push('maxAgeHours must be a positive integer or null');
+      }
+    }
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    }
+    // An update may leave out the lists it doesn't change
+    const categories = input.categories ?? existing?.categories;
+    const feedSources = input.feedSources ?? existing?.feedSources;
+    if (!categories?.length && !feedSources?.length) {
+      errors.push('at least one category or feed source is required');
+    }
+
+    return errors;
+  },
+
+  /**
+   * Seed the default jobs when the collection is empty
+   */
+  async seedDefaults(): Promise<number> {
+    const existing = await strapi.entityService.count('api::import-job.import-job');
+    if (existing > 0) {
+      return 0;
+    }
+
+    for (const job of DEFAULT_IMPORT_JOBS) {
+      await strapi.entityService.create('api::import-job.import-job', { data: job as any });
+    }
+
+    strapi.log.info(`Seeded ${DEFAULT_IMPORT_JOBS.length} default import jobs`);
+    return DEFAULT_IMPORT_JOBS.length;
+  }
+}));
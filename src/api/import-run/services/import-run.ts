@@ -0,0 +1,184 @@
+/**
+ * import-run service
+ */
+
+import { factories } from '@strapi/strapi';
+import type { ImportResult } from '../../../services/google-news-feed';
+
+export type ImportTrigger = 'cron' | 'manual' | 'api';
+
+export interface StartRunInput {
+  jobName: string;
+  trigger: ImportTrigger;
+  categories: string[];
+}
+
+export interface RunListQuery {
+  page?: number;
+  pageSize?: number;
+  jobName?: string;
+  status?: string;
+  trigger?: string;
+}
+
+// Per-item outcomes can be large, so list responses leave them out
+const SUMMARY_FIELDS = [
+  'jobName',
+  'trigger',
+  'status',
+  'categories',
+  'startedAt',
+  'finishedAt',
+  'durationMs',
+  'imported',
+  'skipped',
+  'errors',
+  'approved',
+  'rejected',
+  'errorMessage',
+  'stats'
+] as const;
+
+const MAX_PAGE_SIZE = 100;
+
+export default factories.createCoreService('api::import-run.import-run', ({ strapi }) => ({
+  /**
+   * Record the start of an import run
+   */
+  async startRun(input: StartRunInput) {
+    return await strapi.entityService.create('api::import-run.import-run', {
+      data: {
+        jobName: input.jobName,
+        trigger: input.trigger,
+        categories: input.categories,
+        status: 'running',
+        startedAt: new Date(),
+        imported: 0,
+        skipped: 0,
+        errors: 0,
+        items: []
+      }
+    });
+  },
+
+  /**
+   * Store the counters and per-item outcomes of a finished run
+   */
+  async completeRun(runId: number, result: ImportResult, durationMs: number) {
+    return await strapi.entityService.update('api::import-run.import-run', runId, {
+      data: {
+        status: 'completed',
+        finishedAt: new Date(),
+        durationMs,
+        imported: result.imported,
+        skipped: result.skipped,
+        errors: result.errors,
+        items: result.items as any,
+        stats: (result.stats ?? null) as any
+      }
+    });
+  },
+
+  /**
+   * Mark a run as failed when the import aborted as a whole
+   */
+  async failRun(runId: number, error: any, durationMs: number) {
+    return await strapi.entityService.update('api::import-run.import-run', runId, {
+      data: {
+        status: 'failed',
+        finishedAt: new Date(),
+        durationMs,
+        errorMessage: error?.message || String(error)
+      }
+    });
+  },
+
+  /**
+   * Mark a run as cancelled, keeping whatever it imported before it stopped
+   */
+  async cancelRun(runId: number, result: ImportResult | null, durationMs: number) {
+    return await strapi.entityService.update('api::import-run.import-run', runId, {
+      data: {
+        status: 'cancelled',
+        finishedAt: new Date(),
+        durationMs,
+        ...(result ? {
+          imported: result.imported,
+          skipped: result.skipped,
+          errors: result.errors,
+          items: result.items as any,
+          stats: (result.stats ?? null) as any
+        } : {})
+      }
+    });
+  },
+
+  /**
+   * Run an import and record it, for imports that don't go through the cron service
+   */
+  async recordRun(input: StartRunInput, execute: (runId: number) => Promise<ImportResult>): Promise<ImportResult> {
+    const startTime = Date.now();
+    const run = await this.startRun(input);
+    const runId = Number(run.id);
+
+    let result: ImportResult;
+    try {
+      result = await execute(runId);
+    } catch (error) {
+      await this.failRun(runId, error, Date.now() - startTime);
+      throw error;
+    }
+
+    await this.completeRun(runId, result, Date.now() - startTime);
+    return result;
+  },
+
+  /**
+   * Count an editor's review decision against the run that imported the article
+   */
+  async recordReviewOutcome(runId: number, outcome: 'approved' | 'rejected'): Promise<void> {
+    // A single UPDATE ... SET x = x + 1, so concurrent decisions are all counted
+    const { tableName } = strapi.db.metadata.get('api::import-run.import-run');
+    await strapi.db.connection(tableName).where({ id: runId }).increment(outcome, 1);
+  },
+
+  /**
+   * Paginated run history, newest first
+   */
+  async listRuns(query: RunListQuery = {}) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(query.pageSize) || 25));
+
+    const filters: Record<string, any> = {};
+    if (query.jobName) {
+      filters.jobName = query.jobName;
+    }
+    if (query.status) {
+      filters.status = query.status;
+    }
+    if (query.trigger) {
+      filters.trigger = query.trigger;
+    }
+
+    const [runs, total] = await Promise.all([
+      strapi.entityService.findMany('api::import-run.import-run', {
+        filters,
+        fields: [...SUMMARY_FIELDS],
+        sort: { startedAt: 'desc' },
+        start: (page - 1) * pageSize,
+        limit: pageSize
+      }),
+      strapi.entityService.count('api::import-run.import-run', { filters })
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        page,
+        pageSize,
+        pageCount: Math.ceil(total / pageSize),
+        total
+      }
+    };
+  }
+}));
@@ -0,0 +1,169 @@
+/**
+ * ingestion-item service
+ */
+
+import { factories } from '@strapi/strapi';
+import type { FeedItem } from '../../../services/generic-feed-adapter';
+import type { ImageCandidate } from '../../../services/featured-image-importer';
+
+export type IngestionStage = 'resolution' | 'extraction' | 'ai' | 'save' | 'done';
+
+export type IngestionStatus = 'pending' | 'processing' | 'failed' | 'skipped' | 'completed';
+
+// Order in which an item moves through the import pipeline
+export const INGESTION_STAGES: IngestionStage[] = ['resolution', 'extraction', 'ai', 'save', 'done'];
+
+export interface IngestionItem {
+  id: number;
+  documentId?: string;
+  guid: string;
+  title?: string | null;
+  link: string;
+  resolvedUrl?: string | null;
+  category?: string | null;
+  pubDate?: string | null;
+  stage: IngestionStage;
+  status: IngestionStatus;
+  attempts: number;
+  lastError?: string | null;
+  skipReason?: string | null;
+  lastAttemptAt?: string | null;
+  extractedContent?: string | null;
+  // Images found on the source page, for the featured image
+  imageCandidates?: ImageCandidate[] | null;
+  processedArticle?: Record<string, any> | null;
+}
+
+export default factories.createCoreService('api::ingestion-item.ingestion-item', ({ strapi }) => ({
+  /**
+   * Get the ledger entry for a feed item, keyed by guid (falling back to the link)
+   */
+  async findOrCreate(item: FeedItem, category: string): Promise<IngestionItem> {
+    const existing = await this.findByItem(item);
+    if (existing) {
+      return existing;
+    }
+
+    const guid = (item.guid || item.link).substring(0, 500);
+
+    const created = await strapi.entityService.create('api::ingestion-item.ingestion-item', {
+      data: {
+        guid,
+        title: item.title?.substring(0, 500),
+        link: item.link,
+        category,
+        pubDate: item.pubDate || null,
+        stage: 'resolution',
+        status: 'pending',
+        attempts: 0
+      }
+    });
+
+    return created as unknown as IngestionItem;
+  },
+
+  /**
+   * The ledger entry of a feed item, if it has one
+   */
+  async findByItem(item: FeedItem): Promise<IngestionItem | null> {
+    const guid = (item.guid || item.link).substring(0, 500);
+
+    const existing = await strapi.entityService.findMany('api::ingestion-item.ingestion-item', {
+      filters: { guid },
+      limit: 1
+    }) as any[];
+
+    return existing?.length > 0 ? existing[0] as IngestionItem : null;
+  },
+
+  /**
+   * Mark the start of a processing attempt
+   */
+  async startAttempt(entry: IngestionItem): Promise<void> {
+    await strapi.entityService.update('api::ingestion-item.ingestion-item', entry.id, {
+      data: {
+        status: 'processing',
+        attempts: (entry.attempts || 0) + 1,
+        lastAttemptAt: new Date()
+      }
+    });
+  },
+
+  /**
+   * Record that an item reached the next stage, storing what that stage needs to resume
+   */
+  async advance(entryId: number, stage: IngestionStage, data: Partial<Pick<IngestionItem, 'resolvedUrl' | 'extractedContent' | 'imageCandidates' | 'processedArticle'>> = {}): Promise<void> {
+    await strapi.entityService.update('api::ingestion-item.ingestion-item', entryId, {
+      data: { ...data, stage } as any
+    });
+  },
+
+  /**
+   * Record a failure at the given stage so a retry resumes there
+   */
+  async markFailed(entryId: number, stage: IngestionStage, error: any): Promise<void> {
+    await strapi.entityService.update('api::ingestion-item.ingestion-item', entryId, {
+      data: {
+        stage,
+        status: 'failed',
+        lastError: error?.message || String(error)
+      }
+    });
+  },
+
+  /**
+   * Put an item back when its import was cancelled part way. The next run resumes it at the
+   * given stage and the interrupted attempt isn't counted
+   */
+  async markInterrupted(entry: IngestionItem, stage: IngestionStage): Promise<void> {
+    await strapi.entityService.update('api::ingestion-item.ingestion-item', entry.id, {
+      data: {
+        stage,
+        status: entry.status === 'failed' ? 'failed' : 'pending',
+        attempts: entry.attempts || 0
+      }
+    });
+  },
+
+  /**
+   * Record that an item was deliberately not imported
+   */
+  async markSkipped(entryId: number, reason: string): Promise<void> {
+    await strapi.entityService.update('api::ingestion-item.ingestion-item', entryId, {
+      data: {
+        status: 'skipped',
+        skipReason: reason.substring(0, 255)
+      }
+    });
+  },
+
+  /**
+   * Record a successful import and link the created article
+   */
+  async markCompleted(entryId: number, articleId?: number): Promise<void> {
+    await strapi.entityService.update('api::ingestion-item.ingestion-item', entryId, {
+      data: {
+        stage: 'done',
+        status: 'completed',
+        lastError: null,
+        article: articleId ?? null
+      }
+    });
+  },
+
+  /**
+   * Failed items that have not used up their attempts, oldest first
+   */
+  async findRetryable(limit: number, maxAttempts: number): Promise<IngestionItem[]> {
+    const entries = await strapi.entityService.findMany('api::ingestion-item.ingestion-item', {
+      filters: {
+        status: 'failed',
+        attempts: { $lt: maxAttempts }
+      },
+      sort: { updatedAt: 'asc' },
+      limit
+    });
+
+    return (entries || []) as unknown as IngestionItem[];
+  }
+}));
@@ -1,55 +1,240 @@
 import type { Core } from '@strapi/strapi';
-import NewsCronJobService from '../../../services/news-cron-job';
+import { PassThrough } from 'stream';
+import { getNewsCronJobService } from '../../../services/news-cron-job';
 import GoogleNewsFeedService from '../../../services/google-news-feed';
+import ImportEventStream from '../../../services/import-event-stream';
+import type { ImportJobInput } from '../../import-job/services/import-job';
+import type { QueueJobAction } from '../../queue-job/services/queue-job';
 
 export default ({ strapi }: { strapi: Core.Strapi }) => {
-  const newsCronJobService = new NewsCronJobService();
   const googleNewsFeedService = new GoogleNewsFeedService();
 
+  /**
+   * Pause, resume or cancel a queue job on behalf of one of the job control endpoints
+   */
+  const applyJobAction = async (ctx, action: QueueJobAction) => {
+    try {
+      const { id } = ctx.params;
+
+      const { job, applied } = await strapi.service('api::queue-job.queue-job').requestAction(Number(id), action);
+      if (!job) {
+        ctx.status = 404;
+        ctx.body = {
+          success: false,
+          message: `Queue job ${id} not found`
+        };
+        return;
+      }
+
+      if (!applied) {
+        const state = job.control ? `${job.status} with ${job.control} requested` : job.status;
+        ctx.status = 409;
+        ctx.body = {
+          success: false,
+          message: `Queue job ${id} can't be ${action === 'cancel' ? 'cancelled' : `${action}d`} while it is ${state}`,
+          data: job
+        };
+        return;
+      }
+
+      strapi.log.info(`Queue job ${id}: ${action} requested via API`);
+
+      // Running imports act on the request at their next checkpoint
+      ctx.status = job.status === 'running' ? 202 : 200;
+      ctx.body = {
+        success: true,
+        message: job.status === 'running'
+          ? `${action[0].toUpperCase()}${action.slice(1)} requested, the import applies it between pipeline stages`
+          : `Queue job ${id} ${job.status}`,
+        data: job
+      };
+    } catch (error) {
+      strapi.log.error(`Failed to ${action} queue job:`, error);
+      ctx.status = 500;
+      ctx.body = {
+        success: false,
+        message: `Failed to ${action} queue job`,
+        error: error.message
+      };
+    }
+  };
+
   return {
     /**
-     * Manually trigger news import
+     * Manually trigger news import. Responds as soon as the run is queued
      */
     async manualImport(ctx) {
       try {
-        const { categories, maxArticlesPerCategory } = ctx.request.body || {};
+        const { categories, maxArticlesPerCategory, maxAgeHours, dryRun } = ctx.request.body || {};
+
+        if (maxAgeHours !== undefined && (!Number.isInteger(maxAgeHours) || maxAgeHours < 1)) {
+          ctx.status = 400;
+          ctx.body = {
+            success: false,
+            message: 'maxAgeHours must be a positive integer'
+          };
+          return;
+        }
         
-        strapi.log.info('Manual news import triggered via API');
+        strapi.log.info(`Manual news import${dryRun ? ' dry run' : ''} triggered via API`);
         
-        const result = await newsCronJobService.triggerManualImport(
-          categories || ['World', 'Australia', 'Culture', 'Sport'],
-          maxArticlesPerCategory || 10
+        const job = await getNewsCronJobService().triggerManualImport(
+          categories || await googleNewsFeedService.getAvailableCategories(),
+          maxArticlesPerCategory || 10,
+          'api',
+          dryRun ? 'dry-run' : 'manual',
+          { dryRun: !!dryRun, maxAgeHours }
         );
 
+        ctx.status = 202;
         ctx.body = {
           success: true,
-          message: 'Manual import completed successfully',
-          data: result
+          message: dryRun ? 'Dry run queued' : 'Manual import queued',
+          data: {
+            jobId: job.id,
+            status: job.status,
+            statusUrl: `/api/news-feed/jobs/${job.id}`
+          }
+        };
+      } catch (error) {
+        strapi.log.error('Failed to queue manual import:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: error.message || 'Failed to queue manual import',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * Get a queued or running import job with its progress
+     */
+    async getJob(ctx) {
+      try {
+        const { id } = ctx.params;
+
+        const job = await strapi.service('api::queue-job.queue-job').findJob(id);
+        if (!job) {
+          ctx.status = 404;
+          ctx.body = {
+            success: false,
+            message: `Queue job ${id} not found`
+          };
+          return;
+        }
+
+        ctx.body = {
+          success: true,
+          data: job
         };
       } catch (error) {
-        strapi.log.error('Manual import failed:', error);
+        strapi.log.error('Failed to get queue job:', error);
         ctx.status = 500;
         ctx.body = {
           success: false,
-          message: error.message || 'Manual import failed',
+          message: 'Failed to get queue job',
           error: error.message
         };
       }
     },
 
+    /**
+     * Stop a queued or running import, keeping what it imported so far
+     */
+    async cancelJob(ctx) {
+      await applyJobAction(ctx, 'cancel');
+    },
+
+    /**
+     * Hold a running import at its next checkpoint
+     */
+    async pauseJob(ctx) {
+      await applyJobAction(ctx, 'pause');
+    },
+
+    /**
+     * Let a paused import carry on
+     */
+    async resumeJob(ctx) {
+      await applyJobAction(ctx, 'resume');
+    },
+
+    /**
+     * Stream the log entries, item transitions and progress of an import as Server-Sent Events
+     */
+    async streamJobEvents(ctx) {
+      const { id } = ctx.params;
+      const body = new PassThrough();
+
+      const send = (event: string, data: any, eventId?: number) => {
+        const idLine = eventId !== undefined ? `id: ${eventId}\n` : '';
+        body.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Reconnecting clients resume after the last event they received
+      const lastEventId = Number(ctx.get('Last-Event-ID') || ctx.query.lastEventId) || 0;
+      const stream = new ImportEventStream(Number(id), lastEventId, send, () => body.end());
+
+      try {
+        const found = await stream.start();
+        if (!found) {
+          ctx.status = 404;
+          ctx.body = {
+            success: false,
+            message: `Queue job ${id} not found`
+          };
+          return;
+        }
+      } catch (error) {
+        stream.stop();
+        strapi.log.error('Failed to stream queue job events:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to stream queue job events',
+          error: error.message
+        };
+        return;
+      }
+
+      // Comment lines keep proxies from closing an idle connection
+      const keepAlive = setInterval(() => body.write(': ping\n\n'), 15000);
+      const close = () => {
+        clearInterval(keepAlive);
+        stream.stop();
+      };
+      ctx.req.on('close', close);
+      body.on('finish', close);
+
+      ctx.req.socket.setTimeout(0);
+      ctx.req.socket.setNoDelay(true);
+      ctx.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      ctx.status = 200;
+      ctx.body = body;
+    },
+
     /**
      * Get status of all cron jobs
      */
     async getStatus(ctx) {
       try {
-        const status = newsCronJobService.getJobsStatus();
-        const isRunning = newsCronJobService.isJobRunning();
+        const newsCronJobService = getNewsCronJobService();
+        const status = await newsCronJobService.getJobsStatus();
+        const isRunning = await newsCronJobService.isJobRunning();
+        const queue = await newsCronJobService.getQueueStatus();
 
         ctx.body = {
           success: true,
           data: {
             jobs: status,
-            currentlyRunning: isRunning
+            currentlyRunning: isRunning,
+            queue
           }
         };
       } catch (error) {
@@ -68,11 +253,11 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
      */
     async startJobs(ctx) {
       try {
-        newsCronJobService.startAllJobs();
+        const scheduled = await getNewsCronJobService().startScheduling();
         
         ctx.body = {
           success: true,
-          message: 'All cron jobs started successfully'
+          message: `All cron jobs started successfully (${scheduled} scheduled)`
         };
       } catch (error) {
         strapi.log.error('Failed to start jobs:', error);
@@ -90,7 +275,7 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
      */
     async stopJobs(ctx) {
       try {
-        newsCronJobService.stopAllJobs();
+        await getNewsCronJobService().stopScheduling();
         
         ctx.body = {
           success: true,
@@ -144,12 +329,111 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
       }
     },
 
+    /**
+     * Import one article from a URL an editor found by hand and create a draft for review
+     */
+    async importUrl(ctx) {
+      try {
+        const { url, category, tags } = ctx.request.body || {};
+
+        let parsed: URL | null = null;
+        try {
+          parsed = url ? new URL(url) : null;
+        } catch {
+          parsed = null;
+        }
+        if (!parsed || !['http:', 'https:'].includes(parsed.protocol)) {
+          ctx.status = 400;
+          ctx.body = {
+            success: false,
+            message: 'A valid http(s) URL is required'
+          };
+          return;
+        }
+
+        if (!category) {
+          ctx.status = 400;
+          ctx.body = {
+            success: false,
+            message: 'Category is required'
+          };
+          return;
+        }
+
+        if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+          ctx.status = 400;
+          ctx.body = {
+            success: false,
+            message: 'Tags must be an array of strings'
+          };
+          return;
+        }
+
+        // Drafts go into an existing category, matched case-insensitively
+        const categories = await strapi.entityService.findMany('api::category.category', {
+          filters: { name: { $eqi: category } },
+          limit: 1
+        }) as any[];
+        if (!categories?.length) {
+          ctx.status = 400;
+          ctx.body = {
+            success: false,
+            message: `Unknown category: ${category}`
+          };
+          return;
+        }
+        const categoryName = categories[0].name;
+        const extraTags = [...new Set((tags || []).map(tag => tag.trim()).filter(Boolean))] as string[];
+
+        strapi.log.info(`URL import triggered for: ${parsed.href}`);
+
+        const result = await strapi.service('api::import-run.import-run').recordRun(
+          { jobName: 'import-url', trigger: 'api', categories: [categoryName] },
+          (runId) => googleNewsFeedService.importFromUrl(parsed.href, categoryName, { runId, tags: extraTags })
+        );
+        const item = result.items[0];
+
+        if (item.status === 'imported') {
+          ctx.status = 201;
+          ctx.body = {
+            success: true,
+            message: 'Draft created',
+            data: {
+              articleId: item.articleId,
+              documentId: item.articleDocumentId,
+              title: item.title,
+              resolvedUrl: item.resolvedUrl,
+              storyClusterId: item.storyClusterId
+            }
+          };
+          return;
+        }
+
+        // Already imported, or nothing usable could be extracted from the page
+        const duplicate = item.reason === 'Already imported' || item.reason === 'Article already exists';
+        ctx.status = item.status === 'failed' ? 500 : (duplicate ? 409 : 422);
+        ctx.body = {
+          success: false,
+          message: item.error || item.reason,
+          data: item
+        };
+      } catch (error) {
+        strapi.log.error('URL import failed:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: error.message || 'URL import failed',
+          error: error.message
+        };
+      }
+    },
+
     /**
      * Get available categories
      */
     async getCategories(ctx) {
       try {
-        const categories = ['World', 'Australia', 'Culture', 'Sport'];
+        const categories = await googleNewsFeedService.getAvailableCategories();
         
         ctx.body = {
           success: true,
@@ -171,7 +455,7 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
      */
     async rssBasedImport(ctx) {
       try {
-        const { rssUrl, categories, maxArticles } = ctx.request.body || {};
+        const { rssUrl, category, categories, maxArticles, maxAgeHours, dryRun } = ctx.request.body || {};
         
         if (!rssUrl) {
           ctx.status = 400;
@@ -182,17 +466,31 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
           return;
         }
 
+        if (maxAgeHours !== undefined && (!Number.isInteger(maxAgeHours) || maxAgeHours < 1)) {
+          ctx.status = 400;
+          ctx.body = {
+            success: false,
+            message: 'maxAgeHours must be a positive integer'
+          };
+          return;
+        }
+
         strapi.log.info(`RSS-based import triggered for URL: ${rssUrl}`);
         
-        // Use the Google News Feed Service to import news
-        const result = await googleNewsFeedService.importNews(
-          categories || ['World'],
-          maxArticles || 10
-        );
+        const targetCategory = category || categories?.[0] || 'World';
+
+        // Import the feed directly; the target category defaults to World.
+        // A dry run saves nothing, so it isn't recorded as an import run either
+        const result = dryRun
+          ? await googleNewsFeedService.importFromFeedUrl(rssUrl, targetCategory, maxArticles || 10, { dryRun: true, maxAgeHours })
+          : await strapi.service('api::import-run.import-run').recordRun(
+            { jobName: 'rss-based-import', trigger: 'api', categories: [targetCategory] },
+            (runId) => googleNewsFeedService.importFromFeedUrl(rssUrl, targetCategory, maxArticles || 10, { runId, maxAgeHours })
+          );
 
         ctx.body = {
           success: true,
-          message: 'RSS-based import completed successfully',
+          message: dryRun ? 'RSS-based dry run completed successfully' : 'RSS-based import completed successfully',
           data: result
         };
       } catch (error) {
@@ -204,6 +502,365 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
           error: error.message
         };
       }
+    },
+
+    /**
+     * Retry failed ingestion items from the stage where they stopped
+     */
+    async retryFailed(ctx) {
+      try {
+        const { limit, maxAttempts } = ctx.request.body || {};
+
+        strapi.log.info('Retry of failed ingestion items triggered via API');
+
+        const result = await strapi.service('api::import-run.import-run').recordRun(
+          { jobName: 'retry-failed', trigger: 'api', categories: [] },
+          (runId) => googleNewsFeedService.retryFailedItems(limit || 20, maxAttempts || 5, { runId })
+        );
+
+        ctx.body = {
+          success: true,
+          message: 'Retry of failed items completed',
+          data: result
+        };
+      } catch (error) {
+        strapi.log.error('Retry of failed items failed:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: error.message || 'Retry of failed items failed',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * List import run history
+     */
+    async listRuns(ctx) {
+      try {
+        const { page, pageSize, jobName, status, trigger } = ctx.query || {};
+
+        const { runs, pagination } = await strapi.service('api::import-run.import-run').listRuns({
+          page,
+          pageSize,
+          jobName,
+          status,
+          trigger
+        });
+
+        ctx.body = {
+          success: true,
+          data: runs,
+          meta: { pagination }
+        };
+      } catch (error) {
+        strapi.log.error('Failed to list import runs:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to list import runs',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * Get a single import run including its per-item outcomes
+     */
+    async getRun(ctx) {
+      try {
+        const { id } = ctx.params;
+
+        const run = await strapi.entityService.findOne('api::import-run.import-run', id);
+        if (!run) {
+          ctx.status = 404;
+          ctx.body = {
+            success: false,
+            message: `Import run ${id} not found`
+          };
+          return;
+        }
+
+        ctx.body = {
+          success: true,
+          data: run
+        };
+      } catch (error) {
+        strapi.log.error('Failed to get import run:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to get import run',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * Re-run AI processing for an article from its stored source snapshot
+     */
+    async reprocessArticle(ctx) {
+      try {
+        const articleId = Number(ctx.params.articleId);
+
+        const snapshot = await strapi.service('api::article-source.article-source').findForArticle(articleId);
+        if (!snapshot) {
+          ctx.status = 404;
+          ctx.body = {
+            success: false,
+            message: `No source snapshot stored for article ${ctx.params.articleId}`
+          };
+          return;
+        }
+
+        const article = await googleNewsFeedService.reprocessArticle(articleId);
+        if (!article) {
+          ctx.status = 404;
+          ctx.body = {
+            success: false,
+            message: `Article ${ctx.params.articleId} not found`
+          };
+          return;
+        }
+
+        ctx.body = {
+          success: true,
+          message: 'Article reprocessed from stored source snapshot',
+          data: {
+            id: article.id,
+            documentId: article.documentId,
+            title: article.title,
+            reviewState: article.reviewState,
+            snapshotFetchedAt: snapshot.fetchedAt
+          }
+        };
+      } catch (error) {
+        strapi.log.error('Failed to reprocess article:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to reprocess article',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * List stored import job definitions with whether each is currently scheduled
+     */
+    async listJobDefinitions(ctx) {
+      try {
+        const definitions = await strapi.service('api::import-job.import-job').findDefinitions();
+        const scheduled = getNewsCronJobService().getScheduledJobNames();
+
+        ctx.body = {
+          success: true,
+          data: definitions.map(job => ({ ...job, scheduled: scheduled.includes(job.name) }))
+        };
+      } catch (error) {
+        strapi.log.error('Failed to list import jobs:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to list import jobs',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * Get a single import job definition
+     */
+    async getJobDefinition(ctx) {
+      try {
+        const job = await strapi.service('api::import-job.import-job').findDefinition(Number(ctx.params.id));
+        if (!job) {
+          ctx.status = 404;
+          ctx.body = {
+            success: false,
+            message: `Import job ${ctx.params.id} not found`
+          };
+          return;
+        }
+
+        ctx.body = {
+          success: true,
+          data: { ...job, scheduled: getNewsCronJobService().getScheduledJobNames().includes(job.name) }
+        };
+      } catch (error) {
+        strapi.log.error('Failed to get import job:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to get import job',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * Create an import job definition and schedule it
+     */
+    async createJobDefinition(ctx) {
+      try {
+        const importJobService = strapi.service('api::import-job.import-job');
+        const input = pickJobInput(ctx.request.body);
+
+        const errors = importJobService.validateInput(input);
+        if (errors.length > 0) {
+          ctx.status = 400;
+          ctx.body = {
+            success: false,
+            message: 'Invalid import job',
+            errors
+          };
+          return;
+        }
+
+        if (await importJobService.findDefinitionByName(input.name)) {
+          ctx.status = 409;
+          ctx.body = {
+            success: false,
+            message: `An import job named "${input.name}" already exists`
+          };
+          return;
+        }
+
+        const created = await strapi.entityService.create('api::import-job.import-job', { data: input as any });
+        await getNewsCronJobService().reloadJob(input.name);
+
+        ctx.status = 201;
+        ctx.body = {
+          success: true,
+          message: `Import job ${input.name} created`,
+          data: await importJobService.findDefinition(Number(created.id))
+        };
+      } catch (error) {
+        strapi.log.error('Failed to create import job:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to create import job',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * Update an import job definition and reschedule it
+     */
+    async updateJobDefinition(ctx) {
+      try {
+        const importJobService = strapi.service('api::import-job.import-job');
+        const id = Number(ctx.params.id);
+
+        const existing = await importJobService.findDefinition(id);
+        if (!existing) {
+          ctx.status = 404;
+          ctx.body = {
+            success: false,
+            message: `Import job ${ctx.params.id} not found`
+          };
+          return;
+        }
+
+        const input = pickJobInput(ctx.request.body);
+        const errors = importJobService.validateInput(input, existing);
+        if (errors.length > 0) {
+          ctx.status = 400;
+          ctx.body = {
+            success: false,
+            message: 'Invalid import job',
+            errors
+          };
+          return;
+        }
+
+        if (input.name && input.name !== existing.name) {
+          const clash = await importJobService.findDefinitionByName(input.name);
+          if (clash) {
+            ctx.status = 409;
+            ctx.body = {
+              success: false,
+              message: `An import job named "${input.name}" already exists`
+            };
+            return;
+          }
+        }
+
+        await strapi.entityService.update('api::import-job.import-job', id, { data: input as any });
+
+        const newsCronJobService = getNewsCronJobService();
+        if (input.name && input.name !== existing.name) {
+          newsCronJobService.stopJob(existing.name);
+        }
+        await newsCronJobService.reloadJob(input.name || existing.name);
+
+        ctx.body = {
+          success: true,
+          message: `Import job ${input.name || existing.name} updated`,
+          data: await importJobService.findDefinition(id)
+        };
+      } catch (error) {
+        strapi.log.error('Failed to update import job:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to update import job',
+          error: error.message
+        };
+      }
+    },
+
+    /**
+     * Delete an import job definition and unschedule it
+     */
+    async deleteJobDefinition(ctx) {
+      try {
+        const id = Number(ctx.params.id);
+        const existing = await strapi.service('api::import-job.import-job').findDefinition(id);
+        if (!existing) {
+          ctx.status = 404;
+          ctx.body = {
+            success: false,
+            message: `Import job ${ctx.params.id} not found`
+          };
+          return;
+        }
+
+        await strapi.entityService.delete('api::import-job.import-job', id);
+        getNewsCronJobService().stopJob(existing.name);
+
+        ctx.body = {
+          success: true,
+          message: `Import job ${existing.name} deleted`
+        };
+      } catch (error) {
+        strapi.log.error('Failed to delete import job:', error);
+        ctx.status = 500;
+        ctx.body = {
+          success: false,
+          message: 'Failed to delete import job',
+          error: error.message
+        };
+      }
     }
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Keep only the import job fields a request may set
+ */
+function pickJobInput(body: any): ImportJobInput {
+  const fields: Array<keyof ImportJobInput> = ['name', 'schedule', 'timezone', 'categories', 'feedSources', 'maxArticlesPerCategory', 'maxAgeHours', 'enabled'];
+  const input: ImportJobInput = {};
+
+  fields.forEach(field => {
+    if (body?.[field] !== undefined) {
+      (input as any)[field] = body[field];
+    }
+  });
+
+  return input;
+}
@@ -5,7 +5,7 @@ export default {
       path: '/news-feed/import',
       handler: 'news-feed.manualImport',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
         middlewares: [],
         auth: false,
       },
@@ -15,7 +15,7 @@ export default {
       path: '/news-feed/status',
       handler: 'news-feed.getStatus',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
         middlewares: [],
         auth: false,
       },
@@ -25,7 +25,7 @@ export default {
       path: '/news-feed/start',
       handler: 'news-feed.startJobs',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
         middlewares: [],
         auth: false,
       },
@@ -35,7 +35,7 @@ export default {
       path: '/news-feed/stop',
       handler: 'news-feed.stopJobs',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
         middlewares: [],
         auth: false,
       },
@@ -45,7 +45,7 @@ export default {
       path: '/news-feed/test-ai-extraction',
       handler: 'news-feed.testAiExtraction',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
         middlewares: [],
         auth: false,
       },
@@ -55,7 +55,17 @@ export default {
       path: '/news-feed/rss-based-import',
       handler: 'news-feed.rssBasedImport',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/news-feed/import-url',
+      handler: 'news-feed.importUrl',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
         middlewares: [],
         auth: false,
       },
@@ -65,10 +75,151 @@ export default {
       path: '/news-feed/categories',
       handler: 'news-feed.getCategories',
       config: {
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/news-feed/retry-failed',
+      handler: 'news-feed.retryFailed',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'GET',
+      path: '/news-feed/runs',
+      handler: 'news-feed.listRuns',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'GET',
+      path: '/news-feed/runs/:id',
+      handler: 'news-feed.getRun',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/news-feed/reprocess/:articleId',
+      handler: 'news-feed.reprocessArticle',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'GET',
+      path: '/news-feed/jobs/definitions',
+      handler: 'news-feed.listJobDefinitions',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/news-feed/jobs/definitions',
+      handler: 'news-feed.createJobDefinition',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'GET',
+      path: '/news-feed/jobs/definitions/:id',
+      handler: 'news-feed.getJobDefinition',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'PUT',
+      path: '/news-feed/jobs/definitions/:id',
+      handler: 'news-feed.updateJobDefinition',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'DELETE',
+      path: '/news-feed/jobs/definitions/:id',
+      handler: 'news-feed.deleteJobDefinition',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'jobs:manage' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      // Declared after the job definition routes so /jobs/definitions isn't read as a job id
+      method: 'GET',
+      path: '/news-feed/jobs/:id',
+      handler: 'news-feed.getJob',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'GET',
+      path: '/news-feed/jobs/:id/events',
+      handler: 'news-feed.streamJobEvents',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/news-feed/jobs/:id/cancel',
+      handler: 'news-feed.cancelJob',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/news-feed/jobs/:id/pause',
+      handler: 'news-feed.pauseJob',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/news-feed/jobs/:id/resume',
+      handler: 'news-feed.resumeJob',
+      config: {
+        policies: [{ name: 'global::has-scope', config: { scope: 'import:run' } }],
         middlewares: [],
         auth: false,
       },
     },
   ],
-};
\ No newline at end of file
+};
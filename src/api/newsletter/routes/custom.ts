@@ -20,7 +20,7 @@ export default {
       handler: 'api::newsletter.newsletter.updateStatus',
       config: {
         auth: false,
-        policies: [],
+        policies: [{ name: 'global::has-scope', config: { scope: 'newsletter:send' } }],
         middlewares: [],
       },
     },
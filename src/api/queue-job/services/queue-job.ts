@@ -0,0 +1,307 @@
+/**
+ * queue-job service
+ */
+
+import { factories } from '@strapi/strapi';
+import type { ImportTrigger } from '../../import-run/services/import-run';
+import type { ImportProgress } from '../../../services/import-progress';
+
+export type QueueJobKind = 'import-news';
+
+export type QueueJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// What an editor asked a running job to do
+export type QueueJobControl = 'pause' | 'cancel';
+
+export type QueueJobAction = 'pause' | 'resume' | 'cancel';
+
+export interface QueueJob {
+  id: number;
+  documentId?: string;
+  jobName: string;
+  kind: QueueJobKind;
+  trigger: ImportTrigger;
+  payload?: Record<string, any> | null;
+  status: QueueJobStatus;
+  control?: QueueJobControl | null;
+  priority: number;
+  attempts: number;
+  runAfter?: string | null;
+  leaseOwner?: string | null;
+  leaseExpiresAt?: string | null;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  progress?: ImportProgress | null;
+  result?: Record<string, any> | null;
+  errorMessage?: string | null;
+  importRun?: { id: number } | null;
+  createdAt?: string;
+}
+
+export interface EnqueueInput {
+  jobName: string;
+  kind?: QueueJobKind;
+  trigger: ImportTrigger;
+  payload?: Record<string, any>;
+  priority?: number;
+  // Reuse a job with the same name that is still waiting instead of queueing another
+  coalesce?: boolean;
+}
+
+const QUEUE_UID = 'api::queue-job.queue-job';
+
+// How many claim candidates to try before giving up on a poll
+const CLAIM_CANDIDATES = 5;
+
+export default factories.createCoreService(QUEUE_UID, ({ strapi }) => ({
+  /**
+   * Add a job to the queue
+   */
+  async enqueue(input: EnqueueInput): Promise<{ job: QueueJob; coalesced: boolean }> {
+    if (input.coalesce) {
+      const waiting = await strapi.entityService.findMany(QUEUE_UID, {
+        filters: { jobName: input.jobName, status: 'queued' },
+        sort: { createdAt: 'asc' },
+        limit: 1
+      }) as any[];
+
+      if (waiting?.length) {
+        return { job: waiting[0] as QueueJob, coalesced: true };
+      }
+    }
+
+    const job = await strapi.entityService.create(QUEUE_UID, {
+      data: {
+        jobName: input.jobName,
+        kind: input.kind || 'import-news',
+        trigger: input.trigger,
+        payload: input.payload || {},
+        status: 'queued',
+        priority: input.priority ?? 0,
+        attempts: 0,
+        runAfter: new Date()
+      }
+    });
+
+    return { job: job as unknown as QueueJob, coalesced: false };
+  },
+
+  /**
+   * Lease the next runnable job: the highest-priority queued job, or a running job whose
+   * worker stopped renewing its lease. Claims are conditional updates, so when several
+   * workers race for the same job only one of them gets it
+   */
+  async claimNext(owner: string, leaseMs: number, maxAttempts: number): Promise<QueueJob | null> {
+    const now = new Date();
+
+    const candidates = await strapi.entityService.findMany(QUEUE_UID, {
+      filters: {
+        $or: [
+          { status: 'queued', $or: [{ runAfter: { $null: true } }, { runAfter: { $lte: now } }] },
+          { status: 'running', leaseExpiresAt: { $lt: now } }
+        ]
+      },
+      sort: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      populate: { importRun: { fields: ['id'] } },
+      limit: CLAIM_CANDIDATES
+    } as any) as any[];
+
+    for (const candidate of candidates || []) {
+      const stale = candidate.status === 'running';
+      const where = stale
+        ? { id: candidate.id, status: 'running', leaseExpiresAt: { $lt: now } }
+        : { id: candidate.id, status: 'queued' };
+
+      // A job cancelled while its worker was gone isn't started again
+      if (stale && candidate.control === 'cancel') {
+        const { count } = await strapi.db.query(QUEUE_UID).updateMany({
+          where,
+          data: { status: 'cancelled', finishedAt: now, leaseOwner: null, leaseExpiresAt: null }
+        });
+        if (count > 0) {
+          await this.closeAbandonedRun(candidate, 'cancelled');
+        }
+        continue;
+      }
+
+      if (stale && candidate.attempts >= maxAttempts) {
+        const { count } = await strapi.db.query(QUEUE_UID).updateMany({
+          where,
+          data: {
+            status: 'failed',
+            finishedAt: now,
+            leaseOwner: null,
+            leaseExpiresAt: null,
+            errorMessage: `Worker lease expired after ${candidate.attempts} attempts`
+          }
+        });
+        if (count > 0) {
+          await this.closeAbandonedRun(candidate, 'failed');
+        }
+        continue;
+      }
+
+      const { count } = await strapi.db.query(QUEUE_UID).updateMany({
+        where,
+        data: {
+          status: 'running',
+          leaseOwner: owner,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          startedAt: now,
+          attempts: (candidate.attempts || 0) + 1
+        }
+      });
+
+      if (count > 0) {
+        if (stale) {
+          strapi.log.warn(`Reclaimed queue job ${candidate.id} (${candidate.jobName}) from ${candidate.leaseOwner}`);
+          await this.closeAbandonedRun(candidate, 'failed');
+        }
+        return await this.findJob(candidate.id);
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Extend the lease on a job this worker is running. False means the lease was lost
+   */
+  async renewLease(jobId: number, owner: string, leaseMs: number): Promise<boolean> {
+    const { count } = await strapi.db.query(QUEUE_UID).updateMany({
+      where: { id: jobId, status: 'running', leaseOwner: owner },
+      data: { leaseExpiresAt: new Date(Date.now() + leaseMs) }
+    });
+
+    return count > 0;
+  },
+
+  /**
+   * Record the outcome of a job this worker holds the lease for. False, and nothing
+   * written, when the job was reclaimed or closed meanwhile
+   */
+  async finish(jobId: number, owner: string, outcome: { status: 'completed' | 'failed' | 'cancelled'; result?: any; error?: any }): Promise<boolean> {
+    const { count } = await strapi.db.query(QUEUE_UID).updateMany({
+      where: { id: jobId, status: 'running', leaseOwner: owner },
+      data: {
+        status: outcome.status,
+        finishedAt: new Date(),
+        leaseExpiresAt: null,
+        result: outcome.result ?? null,
+        errorMessage: outcome.error ? (outcome.error.message || String(outcome.error)) : null
+      }
+    });
+
+    return count > 0;
+  },
+
+  /**
+   * Ask a job to pause, resume or stop. A queued job is cancelled straight away; a running
+   * one is told through its control field, which the import checks between pipeline stages.
+   * `applied` is false when the job is in a state the action doesn't apply to
+   */
+  async requestAction(jobId: number, action: QueueJobAction): Promise<{ job: QueueJob | null; applied: boolean }> {
+    let count = 0;
+
+    if (action === 'cancel') {
+      ({ count } = await strapi.db.query(QUEUE_UID).updateMany({
+        where: { id: jobId, status: 'queued' },
+        data: { status: 'cancelled', finishedAt: new Date() }
+      }));
+      if (count === 0) {
+        ({ count } = await strapi.db.query(QUEUE_UID).updateMany({
+          where: { id: jobId, status: 'running' },
+          data: { control: 'cancel' }
+        }));
+      }
+    } else if (action === 'pause') {
+      ({ count } = await strapi.db.query(QUEUE_UID).updateMany({
+        where: { id: jobId, status: 'running', control: { $null: true } },
+        data: { control: 'pause' }
+      }));
+    } else {
+      ({ count } = await strapi.db.query(QUEUE_UID).updateMany({
+        where: { id: jobId, status: 'running', control: 'pause' },
+        data: { control: null }
+      }));
+    }
+
+    return { job: await this.findJob(jobId), applied: count > 0 };
+  },
+
+  /**
+   * The pending control request of a job, read without relations for frequent checks
+   */
+  async getControl(jobId: number): Promise<QueueJobControl | null> {
+    const job = await strapi.db.query(QUEUE_UID).findOne({
+      where: { id: jobId },
+      select: ['control']
+    });
+
+    return job?.control ?? null;
+  },
+
+  /**
+   * Link the import run created while processing a job
+   */
+  async attachImportRun(jobId: number, runId: number): Promise<void> {
+    await strapi.entityService.update(QUEUE_UID, jobId, {
+      data: { importRun: runId }
+    });
+  },
+
+  /**
+   * A single queue job with its import run
+   */
+  async findJob(jobId: number): Promise<QueueJob | null> {
+    const job = await strapi.entityService.findOne(QUEUE_UID, jobId, {
+      populate: { importRun: { fields: ['id', 'status', 'imported', 'skipped', 'errors'] } }
+    } as any);
+
+    return (job || null) as unknown as QueueJob | null;
+  },
+
+  /**
+   * Store the latest progress snapshot of a running job. With an owner, only while that
+   * worker still holds the lease
+   */
+  async updateProgress(jobId: number, progress: ImportProgress, owner?: string): Promise<void> {
+    await strapi.db.query(QUEUE_UID).updateMany({
+      where: owner ? { id: jobId, leaseOwner: owner } : { id: jobId },
+      data: { progress }
+    });
+  },
+
+  /**
+   * Number of queued and running jobs
+   */
+  async countByStatus(): Promise<{ queued: number; running: number }> {
+    const [queued, running] = await Promise.all([
+      strapi.entityService.count(QUEUE_UID, { filters: { status: 'queued' } }),
+      strapi.entityService.count(QUEUE_UID, { filters: { status: 'running' } })
+    ]);
+
+    return { queued, running };
+  },
+
+  /**
+   * Close the import run of an attempt whose worker died
+   */
+  async closeAbandonedRun(job: any, status: 'failed' | 'cancelled'): Promise<void> {
+    const runId = job.importRun?.id;
+    if (!runId) {
+      return;
+    }
+
+    try {
+      const runs = strapi.service('api::import-run.import-run');
+      if (status === 'cancelled') {
+        await runs.cancelRun(runId, null, null);
+      } else {
+        await runs.failRun(runId, new Error('Worker stopped before the run finished'), null);
+      }
+    } catch (error) {
+      strapi.log.warn(`Could not close abandoned import run ${runId}: ${error.message}`);
+    }
+  }
+}));
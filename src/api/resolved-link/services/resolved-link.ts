@@ -0,0 +1,113 @@
+/**
+ * resolved-link service
+ */
+
+import { createHash } from 'crypto';
+import { factories } from '@strapi/strapi';
+
+const RESOLVED_LINK_UID = 'api::resolved-link.resolved-link';
+
+// Google News article IDs always point at the same story, so entries can live long
+const DEFAULT_TTL_HOURS = 720;
+
+export default factories.createCoreService(RESOLVED_LINK_UID, ({ strapi }) => ({
+  /**
+   * The publisher URL a Google News link resolved to, while its entry has not expired.
+   * Lookups never fail an import, a broken cache just means resolving again
+   */
+  async lookup(link: string): Promise<string | null> {
+    const articleId = googleArticleId(link);
+    if (!articleId) {
+      return null;
+    }
+
+    try {
+      const entry = await strapi.db.query(RESOLVED_LINK_UID).findOne({
+        where: { articleKey: articleKey(articleId), expiresAt: { $gt: new Date() } },
+        select: ['resolvedUrl']
+      });
+      return entry?.resolvedUrl || null;
+    } catch (error) {
+      strapi.log.warn(`⚠️ Could not read resolved link cache for ${link}: ${error.message}`);
+      return null;
+    }
+  },
+
+  /**
+   * Store where a Google News link resolved to. Results still on a Google host, as
+   * returned when resolution falls back to the original link, are not kept
+   */
+  async remember(link: string, resolvedUrl: string): Promise<void> {
+    const articleId = googleArticleId(link);
+    if (!articleId || !resolvedUrl || isGoogleHost(resolvedUrl)) {
+      return;
+    }
+
+    const key = articleKey(articleId);
+    const ttlHours = strapi.config.get('news-feed.resolution.cacheTtlHours', DEFAULT_TTL_HOURS) as number;
+    const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+
+    try {
+      const { count } = await strapi.db.query(RESOLVED_LINK_UID).updateMany({
+        where: { articleKey: key },
+        data: { resolvedUrl, expiresAt }
+      });
+      if (count === 0) {
+        await strapi.entityService.create(RESOLVED_LINK_UID, {
+          data: { articleKey: key, googleArticleId: articleId, resolvedUrl, expiresAt }
+        });
+      }
+    } catch (error) {
+      // Most likely another import stored the same link first
+      strapi.log.debug(`Could not cache resolved link ${link}: ${error.message}`);
+    }
+  },
+
+  /**
+   * Delete expired entries
+   */
+  async purgeExpired(): Promise<number> {
+    try {
+      const { count } = await strapi.db.query(RESOLVED_LINK_UID).deleteMany({
+        where: { expiresAt: { $lt: new Date() } }
+      });
+      if (count > 0) {
+        strapi.log.info(`Purged ${count} expired resolved links`);
+      }
+      return count;
+    } catch (error) {
+      strapi.log.warn(`⚠️ Could not purge expired resolved links: ${error.message}`);
+      return 0;
+    }
+  }
+}));
+
+/**
+ * The article ID in a news.google.com link, e.g. /rss/articles/<id>?oc=5 or /read/<id>
+ */
+function googleArticleId(link: string): string | null {
+  try {
+    const url = new URL(link);
+    if (url.hostname !== 'news.google.com') {
+      return null;
+    }
+    const match = url.pathname.match(/\/(?:rss\/)?(?:articles|read)\/([A-Za-z0-9_-]+)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+// The IDs are too long for a unique string column, so they are keyed by their hash
+function articleKey(articleId: string): string {
+  return createHash('sha256').update(articleId).digest('hex');
+}
+
+function isGoogleHost(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname;
+    return hostname === 'google.com' || hostname.endsWith('.google.com');
+  } catch {
+    return true;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * review-queue controller
+ */
+
+import { REVIEW_STATES, ReviewState } from '../services/review-queue';
+
+export default {
+  /**
+   * List drafts waiting for review (or in another review state)
+   */
+  async list(ctx) {
+    try {
+      const { state, page, pageSize } = ctx.query;
+
+      if (state && !REVIEW_STATES.includes(state)) {
+        return ctx.badRequest(`state must be one of: ${REVIEW_STATES.join(', ')}`);
+      }
+
+      const { articles, pagination } = await strapi.service('api::review-queue.review-queue').listQueue({
+        state: state as ReviewState,
+        page: Number(page) || undefined,
+        pageSize: Number(pageSize) || undefined
+      });
+
+      ctx.body = {
+        success: true,
+        data: articles,
+        meta: { pagination }
+      };
+    } catch (error) {
+      strapi.log.error('Failed to list review queue:', error);
+      ctx.status = 500;
+      ctx.body = {
+        success: false,
+        message: 'Failed to list review queue',
+        error: error.message
+      };
+    }
+  },
+
+  /**
+   * A single draft with its source extract, for side-by-side review
+   */
+  async findOne(ctx) {
+    try {
+      const draft = await strapi.service('api::review-queue.review-queue').getDraft(Number(ctx.params.id));
+
+      if (!draft) {
+        ctx.status = 404;
+        ctx.body = {
+          success: false,
+          message: 'Article not found'
+        };
+        return;
+      }
+
+      ctx.body = {
+        success: true,
+        data: draft
+      };
+    } catch (error) {
+      strapi.log.error('Failed to get draft for review:', error);
+      ctx.status = 500;
+      ctx.body = {
+        success: false,
+        message: 'Failed to get draft for review',
+        error: error.message
+      };
+    }
+  },
+
+  async approve(ctx) {
+    await decide(ctx, 'approve', 'Article approved and published');
+  },
+
+  async reject(ctx) {
+    await decide(ctx, 'reject', 'Article rejected');
+  },
+
+  async needsEdit(ctx) {
+    await decide(ctx, 'requestEdit', 'Article sent back for editing');
+  }
+};
+
+/**
+ * Apply a review decision made by the admin user the is-admin policy resolved
+ */
+async function decide(ctx, action: 'approve' | 'reject' | 'requestEdit', successMessage: string) {
+  try {
+    const { notes } = ctx.request.body || {};
+
+    const article = await strapi.service('api::review-queue.review-queue')[action](Number(ctx.params.id), {
+      reviewer: ctx.state.adminUser,
+      notes: typeof notes === 'string' ? notes : undefined
+    });
+
+    if (!article) {
+      ctx.status = 404;
+      ctx.body = {
+        success: false,
+        message: 'Article not found'
+      };
+      return;
+    }
+
+    ctx.body = {
+      success: true,
+      message: successMessage,
+      data: {
+        id: article.id,
+        documentId: article.documentId,
+        reviewState: article.reviewState
+      }
+    };
+  } catch (error) {
+    strapi.log.error(`Review action ${action} failed:`, error);
+    ctx.status = 500;
+    ctx.body = {
+      success: false,
+      message: 'Review action failed',
+      error: error.message
+    };
+  }
+}
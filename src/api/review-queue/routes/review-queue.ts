@@ -0,0 +1,54 @@
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/review-queue',
+      handler: 'review-queue.list',
+      config: {
+        policies: ['global::is-admin'],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'GET',
+      path: '/review-queue/:id',
+      handler: 'review-queue.findOne',
+      config: {
+        policies: ['global::is-admin'],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/review-queue/:id/approve',
+      handler: 'review-queue.approve',
+      config: {
+        policies: ['global::is-admin'],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/review-queue/:id/reject',
+      handler: 'review-queue.reject',
+      config: {
+        policies: ['global::is-admin'],
+        middlewares: [],
+        auth: false,
+      },
+    },
+    {
+      method: 'POST',
+      path: '/review-queue/:id/needs-edit',
+      handler: 'review-queue.needsEdit',
+      config: {
+        policies: ['global::is-admin'],
+        middlewares: [],
+        auth: false,
+      },
+    }
+  ],
+};
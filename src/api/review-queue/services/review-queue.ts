@@ -0,0 +1,195 @@
+/**
+ * review-queue service
+ * Editorial review of AI-generated article drafts before they are published
+ */
+
+export type ReviewState = 'pending' | 'approved' | 'rejected' | 'needs-edit';
+
+export const REVIEW_STATES: ReviewState[] = ['pending', 'approved', 'rejected', 'needs-edit'];
+
+export interface ReviewQueueQuery {
+  state?: ReviewState;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ReviewDecision {
+  reviewer: { id: number };
+  notes?: string;
+}
+
+const ARTICLE_UID = 'api::article.article';
+
+const LIST_FIELDS = ['title', 'slug', 'excerpt', 'sourceUrl', 'reviewState', 'reviewNotes', 'reviewedAt', 'createdAt'] as const;
+
+// States a draft can leave with a verdict that counts against its import run; drafts
+// imported before the review queue have no state
+const UNDECIDED_STATES: ReviewState[] = ['pending', 'needs-edit'];
+
+export default {
+  /**
+   * Paginated drafts in a review state, oldest first so the queue is worked in import order
+   */
+  async listQueue(query: ReviewQueueQuery = {}) {
+    const state = query.state || 'pending';
+    const page = Math.max(1, Number(query.page) || 1);
+    const pageSize = Math.min(100, Math.max(1, Number(query.pageSize) || 25));
+    const filters = { reviewState: state };
+
+    const [articles, total] = await Promise.all([
+      strapi.documents(ARTICLE_UID).findMany({
+        filters,
+        fields: [...LIST_FIELDS],
+        populate: { category: { fields: ['name'] } },
+        sort: { createdAt: 'asc' },
+        status: 'draft',
+        pagination: { page, pageSize }
+      }),
+      strapi.documents(ARTICLE_UID).count({ filters, status: 'draft' })
+    ]);
+
+    return {
+      articles,
+      pagination: {
+        page,
+        pageSize,
+        pageCount: Math.ceil(total / pageSize),
+        total
+      }
+    };
+  },
+
+  /**
+   * A draft together with the source text it was generated from
+   */
+  async getDraft(articleId: number) {
+    const article = await strapi.documents(ARTICLE_UID).findFirst({
+      filters: { id: articleId },
+      populate: {
+        category: { fields: ['name'] },
+        reviewer: { fields: ['firstname', 'lastname', 'email'] },
+        importRun: { fields: ['jobName', 'startedAt'] }
+      },
+      status: 'draft'
+    });
+
+    if (!article) {
+      return null;
+    }
+
+    const entry = await strapi.documents('api::ingestion-item.ingestion-item').findFirst({
+      filters: { article: { id: articleId } },
+      fields: ['title', 'link', 'resolvedUrl', 'extractedContent']
+    });
+
+    return {
+      article,
+      source: {
+        title: entry?.title || null,
+        url: entry?.resolvedUrl || entry?.link || article.sourceUrl || null,
+        extractedContent: entry?.extractedContent || null
+      }
+    };
+  },
+
+  /**
+   * Approve a draft, publish it and count the approval against its import run
+   */
+  async approve(articleId: number, decision: ReviewDecision) {
+    const recorded = await this.recordDecision(articleId, 'approved', decision);
+    if (!recorded) {
+      return null;
+    }
+
+    await strapi.documents(ARTICLE_UID).publish({ documentId: recorded.article.documentId });
+    await this.recordRunOutcome(recorded, 'approved');
+
+    return recorded.article;
+  },
+
+  /**
+   * Reject a draft; an article approved before is unpublished again. The rejection is
+   * counted against its import run
+   */
+  async reject(articleId: number, decision: ReviewDecision) {
+    const recorded = await this.recordDecision(articleId, 'rejected', decision);
+    if (!recorded) {
+      return null;
+    }
+
+    if (recorded.previousState === 'approved') {
+      await strapi.documents(ARTICLE_UID).unpublish({ documentId: recorded.article.documentId });
+    }
+    await this.recordRunOutcome(recorded, 'rejected');
+
+    return recorded.article;
+  },
+
+  /**
+   * Send a draft back for editing with the reviewer's notes
+   */
+  async requestEdit(articleId: number, decision: ReviewDecision) {
+    const recorded = await this.recordDecision(articleId, 'needs-edit', decision);
+    return recorded?.article ?? null;
+  },
+
+  /**
+   * Store the review state, reviewer and notes on the draft, returning it with the state
+   * it was in before. `firstVerdict` is true for the one decision that moved the draft out
+   * of review: the state change is a conditional update, so of two reviewers deciding at
+   * the same time only one gets it
+   */
+  async recordDecision(articleId: number, state: ReviewState, decision: ReviewDecision) {
+    const existing = await strapi.documents(ARTICLE_UID).findFirst({
+      filters: { id: articleId },
+      fields: ['reviewState'],
+      status: 'draft'
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    const { count } = await strapi.db.query(ARTICLE_UID).updateMany({
+      where: {
+        id: articleId,
+        $or: [{ reviewState: { $in: UNDECIDED_STATES } }, { reviewState: { $null: true } }]
+      },
+      data: { reviewState: state }
+    });
+
+    const article = await strapi.documents(ARTICLE_UID).update({
+      documentId: existing.documentId,
+      data: {
+        reviewState: state,
+        reviewer: decision.reviewer.id,
+        reviewedAt: new Date().toISOString(),
+        ...(decision.notes !== undefined ? { reviewNotes: decision.notes } : {})
+      },
+      populate: { importRun: { fields: ['id'] } }
+    });
+
+    return {
+      article,
+      previousState: existing.reviewState ?? null,
+      firstVerdict: count > 0 && state !== 'needs-edit'
+    };
+  },
+
+  /**
+   * Feed the review outcome back into the stats of the run that imported the article. Only
+   * the first verdict on a draft counts, so deciding again doesn't count it twice
+   */
+  async recordRunOutcome(recorded: { article: { importRun?: { id: number | string } | null }; firstVerdict: boolean }, outcome: 'approved' | 'rejected') {
+    const runId = recorded.article.importRun?.id;
+    if (!runId || !recorded.firstVerdict) {
+      return;
+    }
+
+    try {
+      await strapi.service('api::import-run.import-run').recordReviewOutcome(Number(runId), outcome);
+    } catch (error) {
+      strapi.log.warn(`Could not update import run ${runId} review stats: ${error.message}`);
+    }
+  }
+};
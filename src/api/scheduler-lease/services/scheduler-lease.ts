@@ -0,0 +1,56 @@
+/**
+ * scheduler-lease service
+ */
+
+import { factories } from '@strapi/strapi';
+
+const LEASE_UID = 'api::scheduler-lease.scheduler-lease';
+
+export default factories.createCoreService(LEASE_UID, ({ strapi }) => ({
+  /**
+   * Take or renew a named lease. Succeeds when the caller already holds it or the
+   * previous holder let it expire; the conditional update keeps this atomic across nodes
+   */
+  async acquire(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    const { count } = await strapi.db.query(LEASE_UID).updateMany({
+      where: {
+        name,
+        $or: [
+          { owner },
+          { expiresAt: { $null: true } },
+          { expiresAt: { $lt: now } }
+        ]
+      },
+      data: { owner, expiresAt }
+    });
+    if (count > 0) {
+      return true;
+    }
+
+    const existing = await strapi.db.query(LEASE_UID).findOne({ where: { name } });
+    if (existing) {
+      return false;
+    }
+
+    try {
+      await strapi.entityService.create(LEASE_UID, { data: { name, owner, expiresAt } });
+      return true;
+    } catch (error) {
+      // Another node created the lease first, the unique name decides
+      return false;
+    }
+  },
+
+  /**
+   * Give up a lease held by the caller so another node can take over immediately
+   */
+  async release(name: string, owner: string): Promise<void> {
+    await strapi.db.query(LEASE_UID).updateMany({
+      where: { name, owner },
+      data: { owner: null, expiresAt: null }
+    });
+  }
+}));
@@ -0,0 +1,109 @@
+/**
+ * source-url service
+ */
+
+import { factories } from '@strapi/strapi';
+import { canonicalizeUrl, canonicalUrlHash } from '../../../services/url-canonicalizer';
+
+const SOURCE_URL_UID = 'api::source-url.source-url';
+
+// Articles read per query when backfilling
+const BACKFILL_PAGE_SIZE = 200;
+
+export interface SourceUrlClaim {
+  id: number;
+  urlHash: string;
+  canonicalUrl: string;
+  article?: { id: number } | null;
+}
+
+export default factories.createCoreService(SOURCE_URL_UID, ({ strapi }) => ({
+  /**
+   * The claim on a canonical URL, if an article was imported from it
+   */
+  async findByUrl(canonicalUrl: string): Promise<SourceUrlClaim | null> {
+    const claim = await strapi.db.query(SOURCE_URL_UID).findOne({
+      where: { urlHash: canonicalUrlHash(canonicalUrl) },
+      populate: { article: { select: ['id'] } }
+    });
+
+    return (claim || null) as SourceUrlClaim | null;
+  },
+
+  /**
+   * Claim a canonical URL before its article is created. Returns null when it is taken;
+   * between imports running at the same time, the unique hash decides
+   */
+  async claim(canonicalUrl: string): Promise<number | null> {
+    if (await this.findByUrl(canonicalUrl)) {
+      return null;
+    }
+
+    try {
+      const claim = await strapi.entityService.create(SOURCE_URL_UID, {
+        data: { urlHash: canonicalUrlHash(canonicalUrl), canonicalUrl }
+      });
+      return Number(claim.id);
+    } catch (error) {
+      // Another import claimed it since the lookup
+      return null;
+    }
+  },
+
+  /**
+   * Link a claim to the article created for it
+   */
+  async attachArticle(claimId: number, articleId: number): Promise<void> {
+    await strapi.entityService.update(SOURCE_URL_UID, claimId, {
+      data: { article: articleId }
+    });
+  },
+
+  /**
+   * Give a URL back when its article could not be created
+   */
+  async release(claimId: number): Promise<void> {
+    await strapi.entityService.delete(SOURCE_URL_UID, claimId);
+  },
+
+  /**
+   * Claim the source URLs of articles imported before URLs were canonicalized.
+   * Only runs while there are no claims yet
+   */
+  async backfill(): Promise<number> {
+    const existing = await strapi.entityService.count(SOURCE_URL_UID);
+    if (existing > 0) {
+      return 0;
+    }
+
+    let claimed = 0;
+    for (let offset = 0; ; offset += BACKFILL_PAGE_SIZE) {
+      // Draft rows, every article has one
+      const articles = await strapi.db.query('api::article.article').findMany({
+        select: ['id', 'sourceUrl'],
+        where: { sourceUrl: { $notNull: true }, publishedAt: { $null: true } },
+        orderBy: { id: 'asc' },
+        offset,
+        limit: BACKFILL_PAGE_SIZE
+      });
+
+      for (const article of articles) {
+        if (!article.sourceUrl) {
+          continue;
+        }
+        const claimId = await this.claim(canonicalizeUrl(article.sourceUrl));
+        if (claimId) {
+          await this.attachArticle(claimId, article.id);
+          claimed++;
+        }
+      }
+
+      if (articles.length < BACKFILL_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    strapi.log.info(`Claimed the source URLs of ${claimed} existing articles`);
+    return claimed;
+  }
+}));
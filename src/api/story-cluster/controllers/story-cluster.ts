@@ -0,0 +1,7 @@
+/**
+ * story-cluster controller
+ */
+
+import { factories } from '@strapi/strapi'
+
+export default factories.createCoreController('api::story-cluster.story-cluster');
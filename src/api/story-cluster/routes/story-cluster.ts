@@ -0,0 +1,7 @@
+/**
+ * story-cluster router
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::story-cluster.story-cluster');
@@ -0,0 +1,92 @@
+/**
+ * story-cluster service
+ */
+
+import { factories } from '@strapi/strapi';
+import StorySimilarityService from '../../../services/story-similarity';
+
+export interface DuplicateCandidate {
+  id: number;
+  title: string;
+  contentSimhash?: string | null;
+  storyCluster?: { id: number } | null;
+}
+
+export interface DuplicateMatch {
+  article: DuplicateCandidate;
+  titleSimilarity: number;
+  simhashDistance: number;
+}
+
+const similarity = new StorySimilarityService();
+
+export default factories.createCoreService('api::story-cluster.story-cluster', ({ strapi }) => ({
+  /**
+   * Find the recent article that most likely covers the same story
+   */
+  async findNearDuplicate(title: string, contentSimhash: string): Promise<DuplicateMatch | null> {
+    const config = strapi.config.get('news-feed.duplicates', {}) as Record<string, any>;
+    if (config.enabled === false) {
+      return null;
+    }
+
+    const windowHours = config.windowHours ?? 72;
+    const titleThreshold = config.titleThreshold ?? 0.6;
+    const maxDistance = config.simhashDistance ?? 3;
+
+    const candidates = await strapi.entityService.findMany('api::article.article', {
+      filters: {
+        createdAt: { $gte: new Date(Date.now() - windowHours * 60 * 60 * 1000) }
+      },
+      fields: ['title', 'contentSimhash'],
+      populate: { storyCluster: { fields: ['id'] } },
+      publicationState: 'preview',
+      sort: { createdAt: 'desc' },
+      limit: 500
+    } as any) as unknown as DuplicateCandidate[];
+
+    let best: DuplicateMatch | null = null;
+    for (const candidate of candidates || []) {
+      const titleSimilarity = similarity.titleSimilarity(title, candidate.title);
+      const simhashDistance = similarity.hammingDistance(contentSimhash, candidate.contentSimhash || '');
+
+      if (titleSimilarity < titleThreshold && simhashDistance > maxDistance) {
+        continue;
+      }
+
+      if (!best || titleSimilarity - simhashDistance / 64 > best.titleSimilarity - best.simhashDistance / 64) {
+        best = { article: candidate, titleSimilarity, simhashDistance };
+      }
+    }
+
+    return best;
+  },
+
+  /**
+   * Put a new article in the cluster of the story it duplicates, creating the
+   * cluster (with the earlier article as canonical) when there isn't one yet
+   */
+  async addToCluster(existing: DuplicateCandidate, articleId: number): Promise<number> {
+    let clusterId = existing.storyCluster?.id;
+
+    if (!clusterId) {
+      const cluster = await strapi.entityService.create('api::story-cluster.story-cluster', {
+        data: {
+          title: existing.title.substring(0, 200),
+          canonicalArticle: existing.id
+        }
+      });
+      clusterId = Number(cluster.id);
+
+      await strapi.entityService.update('api::article.article', existing.id, {
+        data: { storyCluster: clusterId }
+      });
+    }
+
+    await strapi.entityService.update('api::article.article', articleId, {
+      data: { storyCluster: clusterId }
+    });
+
+    return clusterId;
+  }
+}));
@@ -1,4 +1,5 @@
 import NewsCronJobService from './services/news-cron-job';
+import { getLLMProvider } from './services/llm-provider';
 
 export default {
   /**
@@ -7,7 +8,12 @@ export default {
    *
    * This gives you an opportunity to extend code.
    */
-  register(/*{ strapi }*/) {},
+  register({ strapi }) {
+    // Create the shared LLM provider before plugins bootstrap, the
+    // ai-text-generation plugin picks it up from the global scope
+    const llmProvider = getLLMProvider(strapi);
+    strapi.log.info(`🤖 LLM provider: ${llmProvider.name} (${llmProvider.model})`);
+  },
 
   /**
    * An asynchronous bootstrap function that runs before
@@ -16,22 +22,56 @@ export default {
    * This gives you an opportunity to set up your data model,
    * run jobs, or perform some special logic.
    */
-  bootstrap({ strapi }) {
-    // Initialize and start news cron jobs
+  async bootstrap({ strapi }) {
+    // Seed the default feed sources on a fresh database
+    try {
+      await strapi.service('api::feed-source.feed-source').seedDefaults();
+    } catch (error) {
+      strapi.log.error('❌ Failed to seed default feed sources:', error);
+    }
+
+    // Seed the default import jobs on a fresh database
+    try {
+      await strapi.service('api::import-job.import-job').seedDefaults();
+    } catch (error) {
+      strapi.log.error('❌ Failed to seed default import jobs:', error);
+    }
+
+    // Claim the canonical source URLs of articles imported before deduplication used them
+    try {
+      await strapi.service('api::source-url.source-url').backfill();
+    } catch (error) {
+      strapi.log.error('❌ Failed to backfill source URLs:', error);
+    }
+
+    // Initialize news cron jobs and build the schedule from the stored import jobs
     try {
       const newsCronJobService = new NewsCronJobService();
       
       // Store the service instance globally for access from controllers
       (global as any).newsCronJobService = newsCronJobService;
       
-      // Start all cron jobs
-      newsCronJobService.startAllJobs();
+      const scheduled = await newsCronJobService.startAllJobs();
       
-      strapi.log.info('🚀 News cron jobs initialized and started successfully');
-      strapi.log.info('📅 Jobs will run every 2 hours for categories: World, Australia, Culture, Sport');
+      // Join leader election; the leader fires the schedules and works the import queue
+      await newsCronJobService.startQueue();
+      
+      strapi.log.info(`🚀 News cron jobs initialized: ${scheduled} scheduled from stored import jobs`);
       
     } catch (error) {
       strapi.log.error('❌ Failed to initialize news cron jobs:', error);
     }
   },
-};
\ No newline at end of file
+
+  /**
+   * An asynchronous destroy function that runs before
+   * your application gets shut down.
+   */
+  async destroy() {
+    const newsCronJobService = (global as any).newsCronJobService;
+    if (newsCronJobService) {
+      newsCronJobService.stopAllJobs();
+      await newsCronJobService.stopQueue();
+    }
+  },
+};
@@ -53,17 +53,20 @@ module.exports = ({ strapi }) => ({
         .plugin("ai-text-generation")
         .service("textGenerationService");
 
-      // Check if the service is properly initialized
-      const isInitialized = textGenerationService.genAI && textGenerationService.model;
-      const hasApiKey = !!process.env.OPEN_AI_API_TOKEN;
+      // Check if the shared LLM provider is available and configured
+      const provider = textGenerationService.provider;
+      const isInitialized = !!provider;
+      const isConfigured = textGenerationService.isReady();
 
       ctx.body = {
         success: true,
         data: {
           initialized: isInitialized,
-          hasApiKey: hasApiKey,
-          model: 'gemini-2.0-flash-exp',
-          status: isInitialized && hasApiKey ? 'ready' : 'not_ready',
+          hasApiKey: isConfigured,
+          provider: provider ? provider.name : null,
+          model: provider ? provider.model : null,
+          usage: provider ? provider.getUsage() : null,
+          status: isConfigured ? 'ready' : 'not_ready',
         },
       };
     } catch (error) {
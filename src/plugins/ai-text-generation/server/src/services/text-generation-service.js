@@ -2,21 +2,22 @@
 
 'use strict';
 
-const { GoogleGenerativeAI } = require('@google/generative-ai');
-
 module.exports = ({ strapi }) => ({
 
   init() {
-    const config = strapi.plugin('ai-text-generation').config;
-    
-    if (!process.env.OPEN_AI_API_TOKEN) {
-       throw new Error('Google Gemini API key is required for ai-text-generation plugin');
-     }
+    // Shared with the news import pipeline, created in the app's register()
+    this.provider = global.llmProvider;
 
-    this.genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-     this.model = this.genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+    if (!this.provider || !this.provider.isConfigured()) {
+      strapi.log.warn('LLM provider is not configured, ai-text-generation plugin will be unavailable');
+      return;
+    }
+
+    strapi.log.info(`AI Text Generation service initialized with ${this.provider.name} (${this.provider.model})`);
+  },
 
-    strapi.log.info('AI Text Generation service initialized');
+  isReady() {
+    return !!this.provider && this.provider.isConfigured();
   },
 
   preprocessText(text) {
@@ -39,37 +40,46 @@ module.exports = ({ strapi }) => ({
 
     const processedPrompt = this.preprocessText(params.prompt);
     
+    if (!this.isReady()) {
+      throw new Error('LLM provider is not configured');
+    }
+
     try {
       const prompt = `You are a helpful content writer. Generate clear, engaging, and appropriate content based on the user's prompt: ${processedPrompt}`;
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const generatedText = response.text().trim();
+      const response = await this.provider.generate(prompt, {
+        temperature: params.temperature,
+        maxOutputTokens: params.maxTokens
+      });
+      const generatedText = response.text;
 
       strapi.log.debug(`Generated text: ${generatedText.length} characters`);
 
       return {
         text: generatedText,
-        usage: response.usageMetadata || {},
-        model: params.model || 'gemini-pro',
+        usage: response.usage,
+        model: response.model,
+        provider: response.provider,
         processedPrompt,
         originalPrompt: params.prompt
       };
 
     } catch (error) {
-      strapi.log.error('Google Gemini text generation failed:', error.message);
-      strapi.log.error('Google Gemini error details:', {
-        status: error.status,
+      strapi.log.error(`${this.provider.name} text generation failed:`, error.message);
+      strapi.log.error(`${this.provider.name} error details:`, {
+        status: error.status || error.response?.status,
         code: error.code,
         type: error.type,
         response: error.response?.data || 'No response data'
       });
       
-      // Handle common Google Gemini errors
-      if (error.status === 401) {
-        throw new Error('Invalid Google Gemini API key');
-      } else if (error.status === 429) {
+      const status = error.status || error.response?.status;
+
+      // Handle common provider errors
+      if (status === 401) {
+        throw new Error('Invalid LLM provider API key');
+      } else if (status === 429) {
         throw new Error('Rate limit exceeded. Please try again later');
-      } else if (error.status === 400) {
+      } else if (status === 400) {
         throw new Error('Invalid request parameters');
       }
       
@@ -0,0 +1,26 @@
+/**
+ * has-scope policy
+ * Requires an API token or admin panel JWT holding the scope given in the route config,
+ * e.g. { name: 'global::has-scope', config: { scope: 'import:run' } }
+ */
+
+import ApiAccessService from '../services/api-access';
+
+export default async (policyContext, config, { strapi }) => {
+  const scope = config?.scope;
+  if (!scope) {
+    strapi.log.error('has-scope policy used without a scope');
+    return false;
+  }
+
+  const access = new ApiAccessService(strapi);
+  const actor = await access.resolveActor(policyContext);
+  const allowed = access.hasScope(actor, scope);
+
+  await access.recordAudit(policyContext, scope, actor, allowed ? 'allowed' : 'denied');
+
+  if (allowed) {
+    policyContext.state.apiActor = actor;
+  }
+  return allowed;
+};
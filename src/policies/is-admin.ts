@@ -0,0 +1,16 @@
+/**
+ * is-admin policy
+ * Allows the request only when it carries a valid admin panel JWT for an active admin user
+ */
+
+import ApiAccessService from '../services/api-access';
+
+export default async (policyContext, config, { strapi }) => {
+  const actor = await new ApiAccessService(strapi).resolveActor(policyContext);
+  if (actor?.type !== 'admin') {
+    return false;
+  }
+
+  policyContext.state.adminUser = actor.adminUser;
+  return true;
+};
@@ -1,15 +1,23 @@
 /**
  * Enhanced AI-Powered Content Extraction Service
- * Uses Gemini AI to intelligently extract structured content from RSS feeds and URLs
+ * Uses the configured LLM provider to intelligently extract structured content from RSS feeds and URLs
  * Includes URL resolution, HTML extraction, and rich content generation
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMProvider, LLMProvider } from './llm-provider';
+import {
+  aiArticleSchema,
+  AIArticle,
+  AI_ARTICLE_JSON_SCHEMA,
+  ARTICLE_LIMITS,
+  describeValidationIssues
+} from './article-output-schema';
+import { canonicalizeUrl } from './url-canonicalizer';
+import FeaturedImageImporter, { collectImageCandidates } from './featured-image-importer';
 import * as cheerio from 'cheerio';
 import { Readability } from '@mozilla/readability';
 import { JSDOM } from 'jsdom';
 import axios from 'axios';
-import { URL } from 'url';
 
 interface ExtractedContent {
   title: string;
@@ -55,31 +63,21 @@ interface RSSItem {
   description?: string;
 }
 
+// First request plus bounded re-prompts with validation feedback
+const MAX_GENERATION_ATTEMPTS = 3;
+
 export default class AIContentExtractor {
-  private genAI: GoogleGenerativeAI | null;
-  private model: any;
+  private llm: LLMProvider;
   private strapi: any;
 
   constructor(private strapiInstance: any) {
     this.strapi = strapiInstance;
-    const apiKey = process.env.GEMINI_API_KEY;
+    this.llm = getLLMProvider(this.strapi);
     
-    if (!apiKey) {
-      this.strapi.log.warn('⚠️ GEMINI_API_KEY not found in environment variables. AI extraction will be disabled.');
-      this.genAI = null;
-      this.model = null;
+    if (!this.llm.isConfigured()) {
+      this.strapi.log.warn(`⚠️ LLM provider "${this.llm.name}" is not configured (check config/llm.ts). AI extraction will be disabled.`);
     } else {
-      this.genAI = new GoogleGenerativeAI(apiKey);
-      this.model = this.genAI.getGenerativeModel({ 
-        model: 'gemini-2.5-flash-lite',
-        generationConfig: {
-          temperature: 0.1,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 8192,
-        }
-      });
-      this.strapi.log.info('✅ Enhanced AI Content Extractor initialized with gemini-2.5-flash-lite');
+      this.strapi.log.info(`✅ Enhanced AI Content Extractor initialized with ${this.llm.name}:${this.llm.model}`);
     }
   }
 
@@ -100,11 +98,11 @@ export default class AIContentExtractor {
     });
 
     try {
-      if (!this.genAI || !this.model) {
-        this.strapi.log.error(`❌ [AI-EXTRACTOR] Gemini AI not initialized for: "${articleTitle}"`);
+      if (!this.llm.isConfigured()) {
+        this.strapi.log.error(`❌ [AI-EXTRACTOR] LLM provider "${this.llm.name}" not configured for: "${articleTitle}"`);
         return {
           success: false,
-          error: 'Gemini AI is not initialized. Please check GEMINI_API_KEY.',
+          error: `LLM provider "${this.llm.name}" is not configured. Please check config/llm.ts.`,
           processingTime: Date.now() - startTime
         };
       }
@@ -137,9 +135,10 @@ export default class AIContentExtractor {
       });
       this.strapi.log.debug(`🔍 [AI-EXTRACTOR] Extracted Text Preview: ${(readableContent.textContent || '').substring(0, 500)}...`);
       
-      // Step 4: Generate rich content using Gemini AI
-      this.strapi.log.info(`🤖 [AI-EXTRACTOR] Step 4/5: Generating enhanced content with Gemini AI`);
+      // Step 4: Generate rich content using the LLM provider
+      this.strapi.log.info(`🤖 [AI-EXTRACTOR] Step 4/5: Generating enhanced content with ${this.llm.name}:${this.llm.model}`);
       const aiResult = await this.generateRichContent(readableContent, rssItem, resolvedUrl, category);
+      aiResult.images = collectImageCandidates(htmlContent, resolvedUrl);
       this.strapi.log.info(`✅ [AI-EXTRACTOR] AI content generation completed successfully`);
       this.strapi.log.info(`🎯 [AI-EXTRACTOR] AI Generated Content Summary:`, {
         title: aiResult.title,
@@ -190,6 +189,54 @@ export default class AIContentExtractor {
     }
   }
 
+  /**
+   * Run the AI step again over a stored source snapshot, without fetching the page. The
+   * snapshot's text is used when Readability finds too little in its HTML
+   */
+  async extractFromSnapshot(snapshot: { url: string; html: string; text: string }, title: string, category?: string): Promise<ExtractionResult> {
+    const startTime = Date.now();
+
+    this.strapi.log.info(`🚀 [AI-EXTRACTOR] Starting extraction from stored snapshot for: "${title}"`);
+
+    try {
+      if (!this.llm.isConfigured()) {
+        this.strapi.log.error(`❌ [AI-EXTRACTOR] LLM provider "${this.llm.name}" not configured for: "${title}"`);
+        return {
+          success: false,
+          error: `LLM provider "${this.llm.name}" is not configured. Please check config/llm.ts.`,
+          processingTime: Date.now() - startTime
+        };
+      }
+
+      const readableContent = this.extractReadableContent(snapshot.html || '', snapshot.url);
+      const rssItem: RSSItem = {
+        title,
+        link: snapshot.url,
+        content: snapshot.text,
+        contentSnippet: (snapshot.text || '').substring(0, 200)
+      };
+
+      const aiResult = await this.generateRichContent(readableContent, rssItem, snapshot.url, category);
+      aiResult.images = collectImageCandidates(snapshot.html, snapshot.url);
+
+      const totalTime = Date.now() - startTime;
+      this.strapi.log.info(`🎉 [AI-EXTRACTOR] Snapshot extraction completed in ${totalTime}ms for: "${aiResult.title}"`);
+      return {
+        success: true,
+        data: aiResult,
+        processingTime: totalTime
+      };
+    } catch (error) {
+      const totalTime = Date.now() - startTime;
+      this.strapi.log.error(`❌ [AI-EXTRACTOR] Snapshot extraction failed after ${totalTime}ms for: "${title}"`, error.message);
+      return {
+        success: false,
+        error: error.message,
+        processingTime: totalTime
+      };
+    }
+  }
+
   /**
    * Resolve URL from RSS link (handles redirects and Google News URLs)
    */
@@ -199,11 +246,19 @@ export default class AIContentExtractor {
     try {
       // Handle Google News URLs that need resolution
       if (rssUrl.includes('news.google.com')) {
+        const resolvedLinks = this.strapi.service('api::resolved-link.resolved-link');
+        const cachedUrl = await resolvedLinks.lookup(rssUrl);
+        if (cachedUrl) {
+          this.strapi.log.info(`✅ [AI-EXTRACTOR] Google News URL resolved from cache: ${cachedUrl}`);
+          return cachedUrl;
+        }
+
         this.strapi.log.debug(`📰 [AI-EXTRACTOR] Detected Google News URL, extracting target URL`);
         const urlMatch = rssUrl.match(/url=([^&]+)/);
         if (urlMatch) {
           const decodedUrl = decodeURIComponent(urlMatch[1]);
           this.strapi.log.info(`✅ [AI-EXTRACTOR] Extracted URL from Google News: ${decodedUrl}`);
+          await resolvedLinks.remember(rssUrl, decodedUrl);
           return decodedUrl;
         } else {
           this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Could not extract URL from Google News link, following redirects`);
@@ -216,6 +271,7 @@ export default class AIContentExtractor {
           });
           const resolvedUrl = response.request.res.responseUrl || rssUrl;
           this.strapi.log.info(`✅ [AI-EXTRACTOR] Google News URL resolved to: ${resolvedUrl}`);
+          await resolvedLinks.remember(rssUrl, resolvedUrl);
           return resolvedUrl;
         }
       }
@@ -461,7 +517,8 @@ export default class AIContentExtractor {
   }
 
   /**
-   * Generate rich content using Gemini AI with retry logic
+   * Generate rich content using the LLM provider with schema-constrained output,
+   * re-prompting with the validation errors when the response doesn't fit the Article limits
    */
   private async generateRichContent(
     readableContent: any, 
@@ -469,100 +526,115 @@ export default class AIContentExtractor {
     resolvedUrl: string, 
     category?: string
   ): Promise<ExtractedContent> {
-    const maxRetries = 3;
+    const maxAttempts = MAX_GENERATION_ATTEMPTS;
+    const basePrompt = this.buildEnhancedExtractionPrompt(readableContent, rssItem, resolvedUrl, category);
+    let prompt = basePrompt;
     let lastError: Error | null = null;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        this.strapi.log.info(`🤖 [AI-EXTRACTOR] AI generation attempt ${attempt}/${maxRetries} for: ${resolvedUrl}`);
-        
-        const prompt = this.buildEnhancedExtractionPrompt(readableContent, rssItem, resolvedUrl, category);
-        this.strapi.log.debug(`📝 [AI-EXTRACTOR] Prompt length: ${prompt.length} characters`);
-        
-        // Increase timeout for Gemini 2.5 Flash (it can be slower)
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('AI generation timeout after 120 seconds')), 120000);
-        });
-        
-        this.strapi.log.debug(`🔄 [AI-EXTRACTOR] Sending request to Gemini 2.0 Flash Exp...`);
-        this.strapi.log.debug(`📊 [AI-EXTRACTOR] Prompt stats: ${prompt.length} chars`);
-        
-        const generationPromise = this.model.generateContent(prompt);
-        
-        const result = await Promise.race([generationPromise, timeoutPromise]);
-        this.strapi.log.debug(`🎯 [AI-EXTRACTOR] AI generation completed, processing response...`);
-        
-        const response = await result.response;
-        const aiResponse = response.text().trim();
+    this.strapi.log.debug(`📝 [AI-EXTRACTOR] Prompt length: ${basePrompt.length} characters`);
 
-        this.strapi.log.info(`📝 [AI-EXTRACTOR] AI response received successfully`);
-        this.strapi.log.info(`📊 [AI-EXTRACTOR] AI Response Stats: ${aiResponse.length} characters`);
-        this.strapi.log.info(`🔍 [AI-EXTRACTOR] AI Output for ${resolvedUrl}:`);
-        this.strapi.log.info(`📄 [AI-EXTRACTOR] Full AI Response: ${aiResponse}`);
-        
-        // Log the first 500 characters for debugging
-        this.strapi.log.info(`🔍 [AI-EXTRACTOR] AI Response Preview (first 500 chars): ${aiResponse.substring(0, 500)}`);
-        
-        // Check if response contains safety filters or other issues (more specific detection)
-        const safetyIndicators = [
-          'I cannot provide',
-          'I\'m unable to',
-          'I can\'t assist',
-          'violates safety guidelines',
-          'against my guidelines',
-          'I cannot generate',
-          'safety policies prevent'
-        ];
-        
-        const hasSafetyBlock = safetyIndicators.some(indicator => 
-          aiResponse.toLowerCase().includes(indicator.toLowerCase())
-        );
-        
-        if (hasSafetyBlock) {
-          this.strapi.log.error(`🚫 [AI-EXTRACTOR] AI response blocked by safety filters: ${aiResponse.substring(0, 200)}`);
-          throw new Error(`AI response blocked by safety filters: ${aiResponse.substring(0, 200)}`);
-        }
-
-        // More lenient validation for AI response
-        if (!aiResponse || aiResponse.length < 50) {
-          this.strapi.log.error(`📏 [AI-EXTRACTOR] AI response too short: ${aiResponse.length} characters - "${aiResponse}"`);
-          throw new Error(`AI response too short: ${aiResponse.length} characters`);
-        }
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.strapi.log.info(`🤖 [AI-EXTRACTOR] AI generation attempt ${attempt}/${maxAttempts} for: ${resolvedUrl}`);
+      this.strapi.log.debug(`🔄 [AI-EXTRACTOR] Sending request to ${this.llm.name}:${this.llm.model}...`);
 
-        this.strapi.log.info(`🔄 [AI-EXTRACTOR] Starting to parse AI response...`);
-        
-        // Parse AI response and generate metadata
-        const extractedData = await this.parseEnhancedAIResponse(aiResponse, rssItem, resolvedUrl, category);
-        
-        this.strapi.log.info(`✅ [AI-EXTRACTOR] AI generation successful on attempt ${attempt} for: ${extractedData.title}`);
-        this.strapi.log.info(`📊 [AI-EXTRACTOR] Generated content stats - Title: ${extractedData.title.length} chars, Content: ${extractedData.content.length} chars, Slug: ${extractedData.slug}`);
-        
-        return extractedData;
-        
+      let data: unknown;
+      try {
+        // Generous timeout, flash models can be slow on long articles
+        const response = await this.llm.generateJSON(prompt, {
+          schema: AI_ARTICLE_JSON_SCHEMA,
+          timeoutMs: 120000
+        });
+        data = response.data;
+        this.strapi.log.debug(`🧮 [AI-EXTRACTOR] Token usage: ${response.usage.promptTokens} prompt, ${response.usage.completionTokens} completion`);
       } catch (error) {
         lastError = error;
         this.strapi.log.error(`❌ [AI-EXTRACTOR] AI generation attempt ${attempt} failed: ${error.message}`);
-        this.strapi.log.debug(`🔍 [AI-EXTRACTOR] Error details:`, {
-          errorType: error.constructor.name,
-          errorMessage: error.message,
-          stack: error.stack?.split('\n').slice(0, 3).join('\n')
-        });
-        
-        if (attempt < maxRetries) {
+
+        if (attempt < maxAttempts) {
           const waitTime = attempt * 3000; // Increasing wait time
           this.strapi.log.info(`🔄 [AI-EXTRACTOR] Retrying AI generation in ${waitTime/1000} seconds...`);
           await new Promise(resolve => setTimeout(resolve, waitTime));
         }
+        continue;
+      }
+
+      const validation = aiArticleSchema.safeParse(data);
+      if (validation.success) {
+        const extractedData = this.buildExtractedContent(validation.data, rssItem, resolvedUrl, category);
+
+        this.strapi.log.info(`✅ [AI-EXTRACTOR] AI generation successful on attempt ${attempt} for: ${extractedData.title}`);
+        this.strapi.log.info(`📊 [AI-EXTRACTOR] Generated content stats - Title: ${extractedData.title.length} chars, Content: ${extractedData.content.length} chars, Slug: ${extractedData.slug}`);
+        return extractedData;
       }
+
+      const issues = describeValidationIssues(validation.error);
+      lastError = new Error(`AI response failed validation: ${issues.join('; ')}`);
+      this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Attempt ${attempt} response failed validation: ${issues.join('; ')}`);
+
+      // Ask again with the original task, the rejected output and what was wrong with it
+      prompt = this.buildCorrectionPrompt(basePrompt, data, issues);
     }
 
-    this.strapi.log.error(`❌ [AI-EXTRACTOR] All AI generation attempts failed. Using fallback content.`);
-    this.strapi.log.error(`🔍 [AI-EXTRACTOR] Final error: ${lastError?.message}`);
-    throw new Error(`AI content generation failed after ${maxRetries} attempts: ${lastError?.message}`);
+    this.strapi.log.error(`❌ [AI-EXTRACTOR] All AI generation attempts failed: ${lastError?.message}`);
+    throw new Error(`AI content generation failed after ${maxAttempts} attempts: ${lastError?.message}`);
+  }
+
+  /**
+   * Re-prompt for a response that failed validation
+   */
+  private buildCorrectionPrompt(basePrompt: string, previousResponse: unknown, issues: string[]): string {
+    return `${basePrompt}
+
+**YOUR PREVIOUS RESPONSE WAS REJECTED:**
+${JSON.stringify(previousResponse).substring(0, 4000)}
+
+**FIX THESE PROBLEMS AND RETURN THE COMPLETE JSON OBJECT AGAIN:**
+${issues.map(issue => `- ${issue}`).join('\n')}`;
+  }
+
+  /**
+   * Map a validated AI response onto ExtractedContent
+   */
+  private buildExtractedContent(
+    article: AIArticle,
+    rssItem: RSSItem,
+    resolvedUrl: string,
+    category?: string
+  ): ExtractedContent {
+    // Filter out very generic tags but keep at least one
+    const veryGenericTerms = ['news', 'breaking', 'latest', 'update', 'story', 'article'];
+    const specificTags = article.tags.filter(tag => !veryGenericTerms.includes(tag.toLowerCase()));
+    const tags = specificTags.length > 0 ? specificTags : article.tags;
+
+    this.strapi.log.info(`📰 [AI-EXTRACTOR] Extracted title: "${article.title}"`);
+    this.strapi.log.info(`📍 [AI-EXTRACTOR] Extracted location: ${article.location}`);
+    this.strapi.log.info(`🏷️ [AI-EXTRACTOR] Extracted tags: [${tags.join(', ')}]`);
+
+    return {
+      title: article.title,
+      excerpt: article.excerpt,
+      content: article.content,
+      slug: this.generateSlugWithTimestamp(article.title),
+      seoTitle: article.seoTitle,
+      seoDescription: article.seoDescription,
+      location: article.location,
+      tags,
+      images: [],
+      metadata: {
+        author: rssItem.source || 'Unknown',
+        publishedDate: rssItem.pubDate || new Date().toISOString(),
+        readingTime: this.calculateReadingTime(article.content),
+        language: 'en',
+        category: category || 'General',
+        sourceUrl: resolvedUrl ? canonicalizeUrl(resolvedUrl) : '',
+        rssLink: rssItem.link || '', // Keep original RSS link for reference
+        resolvedUrl: resolvedUrl
+      }
+    };
   }
 
   /**
-   * Build enhanced extraction prompt for Gemini AI with comprehensive instructions
+   * Build enhanced extraction prompt for the LLM with comprehensive instructions
    */
   private buildEnhancedExtractionPrompt(
     readableContent: any, 
@@ -570,9 +642,6 @@ export default class AIContentExtractor {
     resolvedUrl: string, 
     category?: string
   ): string {
-    const currentDate = new Date().toISOString().split('T')[0];
-    const timestamp = new Date().getTime().toString().slice(-6);
-    
     // Prioritize extracted readable content over RSS item content (which often contains just URLs)
     let contentText = '';
     
@@ -615,12 +684,9 @@ export default class AIContentExtractor {
       throw new Error('Content appears to be mostly URLs rather than article text');
     }
     
-    const dateStr = currentDate.replace(/-/g, '');
-    
     return `You are a professional news editor creating factual, informative news content. Transform this article content into a structured news article focusing on factual reporting and public interest information.
 
 IMPORTANT: 
-- You must respond with ONLY a valid JSON object. No explanations, no markdown, no additional text.
 - Focus on factual, newsworthy information suitable for general audiences.
 - Present information objectively and professionally.
 - Avoid sensationalism and focus on verified facts.
@@ -634,16 +700,15 @@ Category: ${category || 'General'}
 ${cleanContent}
 
 **TASK:**
-Create a news article with these exact fields:
+Create a news article with these fields:
 
-1. title: Engaging headline (20-100 characters)
-2. excerpt: Article summary (100-200 characters)  
+1. title: Engaging headline (20-100 characters, never more than ${ARTICLE_LIMITS.titleMax})
+2. excerpt: Article summary (100-${ARTICLE_LIMITS.excerptMax} characters)
 3. content: Clean, readable HTML content with <p> tags (minimum 300 words). Remove all links, ads, and navigation elements. Focus on the main story content only.
-4. slug: URL-friendly slug with format: keywords-${dateStr}-${timestamp}
-5. seoTitle: SEO optimized title (30-60 characters)
-6. seoDescription: Meta description (120-160 characters)
-7. tags: Array of 3-6 relevant keywords (avoid generic terms like "news", "breaking")
-8. location: CAREFULLY extract the specific location mentioned in the article. Look for cities, countries, regions, or states. If multiple locations, use the primary one. Format as "City, Country" or "State, Country". Only use "Global" if NO specific location is mentioned.
+4. seoTitle: SEO optimized title (30-${ARTICLE_LIMITS.seoTitleMax} characters, never more than ${ARTICLE_LIMITS.seoTitleMax})
+5. seoDescription: Meta description (120-${ARTICLE_LIMITS.seoDescriptionMax} characters, never more than ${ARTICLE_LIMITS.seoDescriptionMax})
+6. tags: Array of 3-6 relevant keywords (avoid generic terms like "news", "breaking")
+7. location: CAREFULLY extract the specific location mentioned in the article. Look for cities, countries, regions, or states. If multiple locations, use the primary one. Format as "City, Country" or "State, Country". Only use "Global" if NO specific location is mentioned.
 
 **LOCATION EXTRACTION EXAMPLES:**
 - "New York, United States" (not just "New York")
@@ -662,264 +727,7 @@ Create a news article with these exact fields:
 - Convert to clean, readable paragraphs
 - Maintain proper sentence structure and flow
 
-**CRITICAL REQUIREMENTS:**
-- Output ONLY the JSON object below
-- No markdown code blocks
-- No explanatory text before or after
-- All string fields must be properly escaped
-- Content must be clean, readable text without links or navigation elements
-
-{
-  "title": "Your engaging headline here",
-  "excerpt": "Your article summary here",
-  "content": "<p>Clean, readable article content without any links or navigation elements</p><p>Second paragraph with main story content</p><p>Third paragraph continuing the narrative</p>",
-  "slug": "main-keywords-${dateStr}-${timestamp}",
-  "seoTitle": "SEO optimized title",
-  "seoDescription": "Compelling meta description",
-  "tags": ["keyword1", "keyword2", "keyword3", "keyword4"],
-  "location": "City, Country"
-}`;
-  }
-
-  /**
-   * Parse enhanced AI response and generate additional metadata
-   */
-  private async parseEnhancedAIResponse(
-    aiResponse: string, 
-    rssItem: RSSItem, 
-    resolvedUrl: string, 
-    category?: string
-  ): Promise<ExtractedContent> {
-    this.strapi.log.info(`🔍 [AI-EXTRACTOR] Parsing AI response for URL: ${resolvedUrl}`);
-    
-    try {
-      // Clean the response to extract JSON
-      let jsonStr = aiResponse.trim();
-      this.strapi.log.debug(`📝 [AI-EXTRACTOR] Raw AI response length: ${aiResponse.length} characters`);
-      
-      // Multiple cleaning strategies for different response formats
-      // Remove markdown code blocks if present
-      if (jsonStr.includes('```json')) {
-        const match = jsonStr.match(/```json\s*([\s\S]*?)\s*```/);
-        if (match) {
-          jsonStr = match[1].trim();
-          this.strapi.log.debug(`🧹 [AI-EXTRACTOR] Extracted JSON from markdown blocks`);
-        }
-      } else if (jsonStr.includes('```')) {
-        const match = jsonStr.match(/```\s*([\s\S]*?)\s*```/);
-        if (match) {
-          jsonStr = match[1].trim();
-          this.strapi.log.debug(`🧹 [AI-EXTRACTOR] Extracted content from generic markdown blocks`);
-        }
-      }
-
-      // Find JSON object in the response (more robust)
-      let jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[0];
-        this.strapi.log.debug(`🎯 [AI-EXTRACTOR] Extracted JSON object from response`);
-      } else {
-        // If no JSON found, try to find it after any text
-        const lines = jsonStr.split('\n');
-        const jsonStartIndex = lines.findIndex(line => line.trim().startsWith('{'));
-        if (jsonStartIndex >= 0) {
-          jsonStr = lines.slice(jsonStartIndex).join('\n');
-          this.strapi.log.debug(`🎯 [AI-EXTRACTOR] Found JSON starting at line ${jsonStartIndex}`);
-        }
-      }
-
-      // Additional cleaning for common issues
-      jsonStr = jsonStr
-        .replace(/^\s*Here's the JSON.*?:\s*/i, '') // Remove explanatory text
-        .replace(/^\s*The JSON output.*?:\s*/i, '') // Remove explanatory text
-        .replace(/^\s*JSON:\s*/i, '') // Remove "JSON:" prefix
-        .trim();
-
-      this.strapi.log.debug(`🧹 [AI-EXTRACTOR] Final cleaned JSON length: ${jsonStr.length} characters`);
-      this.strapi.log.debug(`🔍 [AI-EXTRACTOR] First 200 chars of cleaned JSON: ${jsonStr.substring(0, 200)}`);
-      this.strapi.log.info(`📄 [AI-EXTRACTOR] Complete cleaned JSON for parsing: ${jsonStr}`);
-      this.strapi.log.info(`🤖 [AI-EXTRACTOR] Raw AI response (first 2000 chars): ${aiResponse.substring(0, 2000)}`);
-
-      const parsed = JSON.parse(jsonStr);
-      this.strapi.log.info(`✅ [AI-EXTRACTOR] Successfully parsed AI JSON response`);
-      this.strapi.log.info(`🔍 [AI-EXTRACTOR] Parsed object keys: ${Object.keys(parsed).join(', ')}`);
-      
-      // More lenient validation - only check for critical fields
-      const criticalFields = ['title', 'content'];
-      const missingCriticalFields = criticalFields.filter(field => !parsed[field] || parsed[field].trim().length === 0);
-      
-      if (missingCriticalFields.length > 0) {
-        this.strapi.log.error(`❌ [AI-EXTRACTOR] Missing critical fields: ${missingCriticalFields.join(', ')}`);
-        throw new Error(`Missing critical fields: ${missingCriticalFields.join(', ')}`);
-      }
-
-      // Auto-generate missing optional fields
-      if (!parsed.excerpt || parsed.excerpt.trim().length === 0) {
-        const textContent = parsed.content.replace(/<[^>]*>/g, '');
-        parsed.excerpt = textContent.substring(0, 197) + '...';
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Auto-generated excerpt from content`);
-      }
-
-      if (!parsed.slug || parsed.slug.trim().length === 0) {
-        parsed.slug = this.generateSlugWithTimestamp(parsed.title);
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Auto-generated slug: ${parsed.slug}`);
-      }
-
-      if (!parsed.seoTitle || parsed.seoTitle.trim().length === 0) {
-        parsed.seoTitle = parsed.title.length > 60 ? parsed.title.substring(0, 57) + '...' : parsed.title;
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Auto-generated SEO title`);
-      }
-
-      if (!parsed.seoDescription || parsed.seoDescription.trim().length === 0) {
-        parsed.seoDescription = parsed.excerpt.length > 160 ? parsed.excerpt.substring(0, 157) + '...' : parsed.excerpt;
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Auto-generated SEO description`);
-      }
-
-      if (!Array.isArray(parsed.tags) || parsed.tags.length === 0) {
-        const titleWords = parsed.title.toLowerCase().split(' ').filter(word => word.length > 3);
-        parsed.tags = [category || 'General', ...titleWords.slice(0, 3)];
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Auto-generated tags: ${parsed.tags.join(', ')}`);
-      }
-
-      if (!parsed.location || parsed.location.trim().length === 0) {
-        parsed.location = 'Global';
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Set default location: Global`);
-      }
-
-      // Validate title quality - be more lenient
-      if (parsed.title.length < 5 || parsed.title.length > 150) {
-        this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Title length warning: "${parsed.title}" (${parsed.title.length} chars)`);
-        if (parsed.title.length > 150) {
-          parsed.title = parsed.title.substring(0, 147) + '...';
-          this.strapi.log.info(`🔧 [AI-EXTRACTOR] Truncated long title`);
-        }
-      }
-
-      // Validate excerpt length (more lenient)
-      if (parsed.excerpt.length < 50 || parsed.excerpt.length > 300) {
-        this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Invalid excerpt length: ${parsed.excerpt.length} characters`);
-        // Truncate or extend excerpt instead of failing
-        if (parsed.excerpt.length > 300) {
-          parsed.excerpt = parsed.excerpt.substring(0, 297) + '...';
-          this.strapi.log.info(`🔧 [AI-EXTRACTOR] Truncated excerpt to fit requirements`);
-        } else if (parsed.excerpt.length < 50 && parsed.content) {
-          // Generate excerpt from content if too short
-          const textContent = parsed.content.replace(/<[^>]*>/g, '');
-          parsed.excerpt = textContent.substring(0, 197) + '...';
-          this.strapi.log.info(`🔧 [AI-EXTRACTOR] Generated excerpt from content`);
-        }
-      }
-
-      // Validate content length (more lenient)
-      if (parsed.content.length < 200) {
-        this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Content too short: ${parsed.content.length} characters`);
-        this.strapi.log.info(`🔄 [AI-EXTRACTOR] Proceeding with short content - may use fallback expansion`);
-      }
-
-      // Validate and fix SEO fields
-      if (parsed.seoTitle && (parsed.seoTitle.length < 20 || parsed.seoTitle.length > 80)) {
-        this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Invalid seoTitle length: ${parsed.seoTitle.length} characters`);
-        if (parsed.seoTitle.length > 80) {
-          parsed.seoTitle = parsed.seoTitle.substring(0, 77) + '...';
-        } else if (parsed.seoTitle.length < 20) {
-          parsed.seoTitle = parsed.title; // Use main title as fallback
-        }
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Fixed seoTitle length`);
-      }
-
-      if (parsed.seoDescription && (parsed.seoDescription.length < 100 || parsed.seoDescription.length > 180)) {
-        this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Invalid seoDescription length: ${parsed.seoDescription.length} characters`);
-        if (parsed.seoDescription.length > 180) {
-          parsed.seoDescription = parsed.seoDescription.substring(0, 177) + '...';
-        } else if (parsed.seoDescription.length < 100) {
-          parsed.seoDescription = parsed.excerpt; // Use excerpt as fallback
-        }
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Fixed seoDescription length`);
-      }
-
-      // Validate and fix tags
-      if (!Array.isArray(parsed.tags) || parsed.tags.length < 2) {
-        this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Invalid tags array: ${parsed.tags?.length || 0} tags`);
-        // Generate fallback tags from category and title
-        const titleWords = parsed.title.toLowerCase().split(' ').filter(word => word.length > 4);
-        parsed.tags = [category || 'General', ...titleWords.slice(0, 3)];
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Generated fallback tags: ${parsed.tags.join(', ')}`);
-      }
-
-      // Filter out very generic tags but keep moderately specific ones
-      const veryGenericTerms = ['news', 'breaking', 'latest', 'update', 'story', 'article'];
-      const filteredTags = parsed.tags.filter(tag => 
-        !veryGenericTerms.some(generic => tag.toLowerCase() === generic.toLowerCase())
-      );
-      
-      if (filteredTags.length >= 2) {
-        parsed.tags = filteredTags.slice(0, 8); // Limit to 8 tags
-      } else {
-        // Keep original tags if filtering removes too many
-        parsed.tags = parsed.tags.slice(0, 8);
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Kept original tags to maintain minimum count`);
-      }
-
-      // Validate and fix location
-      if (!parsed.location || parsed.location.trim().length < 2) {
-        this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Invalid location: "${parsed.location}"`);
-        parsed.location = 'Global'; // Use Global as fallback
-        this.strapi.log.info(`🔧 [AI-EXTRACTOR] Set location to 'Global' as fallback`);
-      }
-      
-      // Use AI-generated slug if available, otherwise generate one
-      const slug = parsed.slug || this.generateSlugWithTimestamp(parsed.title);
-      this.strapi.log.debug(`🏷️ [AI-EXTRACTOR] Generated slug: ${slug}`);
-      
-      // Ensure tags are valid
-      const tags = Array.isArray(parsed.tags) && parsed.tags.length > 0 
-        ? parsed.tags.filter(tag => tag && typeof tag === 'string' && tag.trim().length > 0)
-        : [category || 'General'];
-      
-      // Log key extracted data
-      this.strapi.log.info(`📰 [AI-EXTRACTOR] Extracted title: "${parsed.title}"`);
-      this.strapi.log.info(`📍 [AI-EXTRACTOR] Extracted location: ${parsed.location || 'Not specified'}`);
-      this.strapi.log.info(`🏷️ [AI-EXTRACTOR] Extracted tags: [${tags.join(', ')}]`);
-      this.strapi.log.info(`📊 [AI-EXTRACTOR] Content length: ${parsed.content.length} characters`);
-      
-      // Ensure all required fields are present with proper validation
-      const extractedContent: ExtractedContent = {
-        title: parsed.title.trim(),
-        excerpt: parsed.excerpt.trim(),
-        content: parsed.content,
-        slug: slug,
-        seoTitle: parsed.seoTitle?.trim() || parsed.title.substring(0, 60),
-        seoDescription: parsed.seoDescription?.trim() || parsed.excerpt.substring(0, 160),
-        location: parsed.location?.trim() || '',
-        tags: tags,
-        images: [],
-        metadata: {
-          author: parsed.metadata?.author || rssItem.source || 'Unknown',
-          publishedDate: parsed.metadata?.publishedDate || rssItem.pubDate || new Date().toISOString(),
-          readingTime: parsed.metadata?.readingTime || this.calculateReadingTime(parsed.content),
-          language: parsed.metadata?.language || 'en',
-          category: category || parsed.metadata?.category || 'General',
-          sourceUrl: (resolvedUrl || '').substring(0, 450), // Truncate to 450 chars to stay within 500 limit
-          rssLink: rssItem.link || '', // Keep original RSS link for reference
-          resolvedUrl: resolvedUrl
-        }
-      };
-
-      // Final validation
-      if (!extractedContent.title || !extractedContent.content || !extractedContent.excerpt) {
-        throw new Error('Final validation failed: missing critical content');
-      }
-
-      this.strapi.log.info(`✅ [AI-EXTRACTOR] Successfully processed article data for: "${extractedContent.title}"`);
-      return extractedContent;
-    } catch (error) {
-      this.strapi.log.error(`❌ [AI-EXTRACTOR] Failed to parse AI response for ${resolvedUrl}:`, error.message);
-      this.strapi.log.debug(`🔍 [AI-EXTRACTOR] Raw AI response causing error:`, aiResponse.substring(0, 1000));
-      this.strapi.log.warn(`🔄 [AI-EXTRACTOR] Using fallback data structure`);
-      
-      // Return fallback content
-      return await this.generateFallbackContent(rssItem, resolvedUrl, category);
-    }
+Respond with a single JSON object with exactly the fields above.`;
   }
 
   /**
@@ -959,154 +767,25 @@ Create a news article with these exact fields:
       : textContent;
   }
 
-  /**
-   * Generate fallback content when AI parsing fails
-   */
-  private async generateFallbackContent(rssItem: RSSItem, resolvedUrl: string, category?: string): Promise<ExtractedContent> {
-    this.strapi.log.info(`🔄 [AI-EXTRACTOR] Generating enhanced fallback content for: ${resolvedUrl}`);
-    
-    let title = rssItem.title?.trim() || 'Untitled Article';
-    
-    // If title is generic (like "Google News"), try to extract a better title from the URL or content
-    if (title === 'Google News' || title === 'News' || title.length < 10) {
-      this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Generic title detected: "${title}", attempting to extract better title`);
-      
-      try {
-        // Try to extract title from the resolved URL
-        const urlTitle = this.extractTitleFromUrl(resolvedUrl);
-        if (urlTitle && urlTitle.length > 10) {
-          title = urlTitle;
-          this.strapi.log.info(`✅ [AI-EXTRACTOR] Extracted title from URL: "${title}"`);
-        } else {
-          // Try to extract title from content
-          const contentTitle = this.extractTitleFromContent(rssItem.content || rssItem.description || '');
-          if (contentTitle && contentTitle.length > 10) {
-            title = contentTitle;
-            this.strapi.log.info(`✅ [AI-EXTRACTOR] Extracted title from content: "${title}"`);
-          } else {
-            // Generate a title based on category and timestamp
-            title = `${category || 'News'} Article - ${new Date().toLocaleDateString()}`;
-            this.strapi.log.info(`✅ [AI-EXTRACTOR] Generated fallback title: "${title}"`);
-          }
-        }
-      } catch (error) {
-        this.strapi.log.warn(`⚠️ [AI-EXTRACTOR] Failed to extract better title: ${error.message}`);
-        title = `${category || 'News'} Article - ${new Date().toLocaleDateString()}`;
-      }
-    }
-    
-    const rawContent = rssItem.content || rssItem.description || rssItem.contentSnippet || '';
-    
-    // Create proper HTML content structure
-    const content = rawContent.length > 100 
-      ? `<p>${rawContent.replace(/\n\n/g, '</p><p>').replace(/\n/g, '<br>')}</p>`
-      : `<p>This article was imported from ${resolvedUrl}. Please visit the source for full content.</p><p>${rawContent}</p>`;
-    
-    // Generate meaningful excerpt
-    const excerpt = rawContent.length > 200 
-      ? rawContent.substring(0, 197).trim() + '...'
-      : rawContent || `Article from ${title}`;
-    
-    // Generate basic tags from title and category
-    const titleWords = title.toLowerCase().split(' ').filter(word => word.length > 3);
-    const tags = [
-      category || 'General',
-      ...titleWords.slice(0, 3)
-    ].filter(Boolean);
-    
-    this.strapi.log.info(`📝 [AI-EXTRACTOR] Fallback content generated with title: "${title}"`);
-    
-    return {
-      title: title,
-      excerpt: excerpt,
-      content: content,
-      slug: this.generateSlugWithTimestamp(title),
-      seoTitle: title.length > 60 ? title.substring(0, 57) + '...' : title,
-      seoDescription: excerpt.length > 160 ? excerpt.substring(0, 157) + '...' : excerpt,
-      location: '',
-      tags: tags,
-      images: [],
-      metadata: {
-          author: rssItem.source || 'Unknown',
-          publishedDate: rssItem.pubDate || new Date().toISOString(),
-          readingTime: this.calculateReadingTime(content),
-          language: 'en',
-          category: category || 'General',
-          sourceUrl: (resolvedUrl || rssItem.link || '').substring(0, 450), // Truncate to 450 chars
-          resolvedUrl: resolvedUrl
-        }
-    };
-  }
-
-  /**
-   * Extract title from URL path and domain
-   */
-  private extractTitleFromUrl(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      const pathname = urlObj.pathname;
-      
-      // Extract meaningful parts from the URL path
-      const pathParts = pathname.split('/').filter(part => part && part.length > 2);
-      
-      if (pathParts.length > 0) {
-        // Take the last meaningful part of the path (usually the article slug)
-        const lastPart = pathParts[pathParts.length - 1];
-        
-        // Convert URL slug to readable title
-        const title = lastPart
-          .replace(/[-_]/g, ' ')
-          .replace(/\.(html|htm|php|aspx?)$/i, '')
-          .replace(/\b\w/g, l => l.toUpperCase())
-          .trim();
-        
-        if (title.length > 10) {
-          return title;
-        }
-      }
-      
-      // Fallback to domain-based title
-      const domain = urlObj.hostname.replace(/^www\./, '');
-      return `Article from ${domain}`;
-    } catch (error) {
-      return '';
-    }
-  }
-
-  /**
-   * Extract title from content text
-   */
-  private extractTitleFromContent(content: string): string {
-    if (!content || content.length < 20) return '';
-    
-    try {
-      // Look for the first sentence that could be a title
-      const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 10);
-      
-      if (sentences.length > 0) {
-        const firstSentence = sentences[0].trim();
-        
-        // If the first sentence is reasonable length for a title, use it
-        if (firstSentence.length > 10 && firstSentence.length < 100) {
-          return firstSentence.replace(/^[^a-zA-Z0-9]*/, '').trim();
-        }
-      }
-      
-      // Fallback: take first 80 characters and clean up
-      return content.substring(0, 80).trim().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ');
-    } catch (error) {
-      return '';
-    }
-  }
-
   /**
    * Save extracted content as draft article in Strapi with comprehensive logging
    */
   async saveArticleAsDraft(extractedContent: ExtractedContent, category?: string): Promise<any> {
     const articleTitle = extractedContent.title || 'Untitled Article';
     this.strapi.log.info(`💾 [AI-EXTRACTOR] Starting to save article as draft: "${articleTitle}"`);
+
+    const sourceUrls = this.strapi.service('api::source-url.source-url');
+    let claimId: number | null = null;
     
     try {
+      const sourceUrl = extractedContent.metadata.sourceUrl ? canonicalizeUrl(extractedContent.metadata.sourceUrl) : '';
+      if (sourceUrl) {
+        claimId = await sourceUrls.claim(sourceUrl);
+        if (!claimId) {
+          throw new Error(`Article already exists for ${sourceUrl}`);
+        }
+      }
+
       // Get or create author and category entities
       const { author, category: categoryEntity } = await this.getAuthorAndCategory(category || extractedContent.metadata.category || 'News');
       
@@ -1124,8 +803,9 @@ Create a news article with these exact fields:
         author: author.id, // Use author ID instead of string
         category: categoryEntity.id, // Use category ID
         publishedAt: null, // Save as draft (unpublished)
+        reviewState: 'pending',
         publishedDate: new Date(extractedContent.metadata.publishedDate),
-        sourceUrl: (extractedContent.metadata.sourceUrl || '').substring(0, 450), // Ensure within 500 char limit
+        sourceUrl,
         isBreaking: false
       };
 
@@ -1149,6 +829,10 @@ Create a news article with these exact fields:
       });
 
       this.strapi.log.info(`✅ [AI-EXTRACTOR] Article entity created with ID: ${createdArticle.id}`);
+      if (claimId) {
+        await sourceUrls.attachArticle(claimId, createdArticle.id);
+        claimId = null;
+      }
 
       // Handle tags separately after article creation
       if (extractedContent.tags && extractedContent.tags.length > 0) {
@@ -1169,10 +853,10 @@ Create a news article with these exact fields:
         }
       }
 
-      // Handle images if any (but skip as per requirements)
+      // Upload the best image as the featured image
       if (extractedContent.images && extractedContent.images.length > 0) {
-        this.strapi.log.info(`🖼️ [AI-EXTRACTOR] Found ${extractedContent.images.length} images, but skipping image processing as per requirements`);
-        this.strapi.log.debug(`📷 [AI-EXTRACTOR] Images found:`, extractedContent.images.map(img => img.url));
+        this.strapi.log.info(`🖼️ [AI-EXTRACTOR] Found ${extractedContent.images.length} images, picking a featured image`);
+        await new FeaturedImageImporter(this.strapi).attachToArticle(createdArticle.id, extractedContent.images, articleTitle);
       } else {
         this.strapi.log.debug(`📷 [AI-EXTRACTOR] No images found in extracted content`);
       }
@@ -1181,6 +865,9 @@ Create a news article with these exact fields:
       return createdArticle;
       
     } catch (error) {
+      if (claimId) {
+        await sourceUrls.release(claimId).catch(() => {});
+      }
       this.strapi.log.error(`❌ [AI-EXTRACTOR] Failed to save article as draft: "${articleTitle}"`, error.message);
       this.strapi.log.debug(`🔍 [AI-EXTRACTOR] Save error details:`, {
         articleTitle,
@@ -1287,80 +974,6 @@ Create a news article with these exact fields:
     return tagIds;
   }
 
-  /**
-   * Handle image extraction and upload for articles
-   */
-  private async handleArticleImages(articleId: number, images: any[]): Promise<void> {
-    try {
-      this.strapi.log.info(`🖼️ Processing ${images.length} images for article ${articleId}`);
-
-      for (const image of images) {
-        try {
-          // Download and upload image to Strapi
-          const uploadedImage = await this.downloadAndUploadImage(image.url, image.alt);
-          
-          if (uploadedImage) {
-            // Associate image with article
-            await this.strapi.entityService.update('api::article.article', articleId, {
-              data: {
-                featuredImage: uploadedImage.id
-              }
-            });
-            
-            this.strapi.log.info(`✅ Image uploaded and associated with article: ${uploadedImage.name}`);
-            break; // Use first successful image as featured image
-          }
-        } catch (imageError) {
-          this.strapi.log.warn(`⚠️ Failed to process image ${image.url}: ${imageError.message}`);
-        }
-      }
-    } catch (error) {
-      this.strapi.log.error('Failed to handle article images:', error.message);
-    }
-  }
-
-  /**
-   * Download and upload image to Strapi
-   */
-  private async downloadAndUploadImage(imageUrl: string, altText?: string): Promise<any> {
-    try {
-      // Download image
-      const response = await axios.get(imageUrl, {
-        responseType: 'stream',
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-
-      // Generate filename
-      const url = new URL(imageUrl);
-      const extension = url.pathname.split('.').pop() || 'jpg';
-      const filename = `article-image-${Date.now()}.${extension}`;
-
-      // Upload to Strapi
-      const uploadedFile = await this.strapi.plugins.upload.services.upload.upload({
-        data: {
-          refId: null,
-          ref: null,
-          field: null,
-          source: 'content-manager'
-        },
-        files: {
-          path: response.data,
-          name: filename,
-          type: response.headers['content-type'] || 'image/jpeg',
-          size: parseInt(response.headers['content-length'] || '0')
-        }
-      });
-
-      return uploadedFile[0];
-    } catch (error) {
-      this.strapi.log.error(`Failed to download/upload image ${imageUrl}:`, error.message);
-      return null;
-    }
-  }
-
   /**
    * Complete pipeline: Extract from RSS item and save as draft
    */
@@ -1396,379 +1009,6 @@ Create a news article with these exact fields:
     }
   }
 
-  /**
-   * Legacy method for backward compatibility
-   */
-  private buildExtractionPrompt(rawHtml: string, sourceUrl?: string): string {
-    return `You are an expert content extraction and SEO optimization AI. Your task is to ALWAYS generate meaningful, rich content regardless of the quality of the input HTML. You MUST NEVER fail to produce a complete, valid JSON response.
-
-CRITICAL INSTRUCTIONS - MANDATORY COMPLIANCE:
-1. ALWAYS extract or generate meaningful content - if the HTML is insufficient, use the source URL context to infer content
-2. NEVER return generic titles like "Extracted Article" - always create specific, descriptive titles
-3. ALWAYS generate substantial content (minimum 200 characters) - if extraction fails, create content based on URL context and available text
-4. ALWAYS provide 5-10 relevant tags - if unclear from content, infer from URL, domain, or context
-5. ALWAYS provide a location if any geographic context is available (from URL, domain, or content)
-6. ALWAYS generate compelling SEO-optimized titles and descriptions
-7. ALWAYS preserve or create proper HTML structure with semantic tags
-8. ALWAYS return valid JSON - this is non-negotiable
-
-FALLBACK STRATEGY (when HTML content is insufficient):
-- Analyze the source URL for context clues (domain, path, keywords)
-- Use any available text fragments to infer topic and content
-- Generate relevant content based on URL structure and domain context
-- Create appropriate tags based on inferred topic
-- Provide meaningful titles and descriptions even with limited information
-
-CONTENT GENERATION REQUIREMENTS:
-- Title: Must be specific and descriptive (never generic), under 60 characters when possible
-- Excerpt: Compelling summary, 150-200 characters, must encourage reading
-- Content: Rich HTML content with proper structure, minimum 200 characters
-- SEO Title: Optimized for search engines, max 60 characters
-- SEO Description: Engaging meta description, max 160 characters
-- Tags: 5-10 specific, relevant tags for discoverability
-- Location: Geographic context if available from any source
-
-QUALITY ASSURANCE:
-- Content must be substantial and meaningful
-- All required fields must be populated with real values
-- JSON must be valid and complete
-- Never use placeholder or generic content
-
-${sourceUrl ? `Source URL: ${sourceUrl}` : ''}
-
-HTML Content:
-${rawHtml.substring(0, 15000)} ${rawHtml.length > 15000 ? '...[truncated]' : ''}
-
-REMEMBER: You MUST generate a complete, meaningful response even if the HTML content is poor quality. Use all available context including the URL to create valuable content. Failure to provide a complete response is not acceptable.
-
-Required JSON Response Format:
-{
-  "title": "Compelling, descriptive article title (string, required, avoid generic titles)",
-  "excerpt": "Engaging summary that encourages reading (string, 150-200 characters, required)",
-  "content": "Clean HTML content with semantic tags like <p>, <h2>, <h3>, <ul>, <ol>, <li>, <strong>, <em>, <blockquote> (string, required)",
-  "seoTitle": "SEO-optimized title for search engines (string, max 60 characters, required)",
-  "seoDescription": "Compelling meta description for search results (string, max 160 characters, required)",
-  "location": "Geographic location mentioned in article if any (string, optional)",
-  "tags": ["specific", "relevant", "topic", "tags", "for", "discoverability"],
-  "images": [
-    {
-      "url": "image URL (string)",
-      "alt": "descriptive alt text (string, optional)",
-      "caption": "image caption if available (string, optional)"
-    }
-  ],
-  "metadata": {
-    "author": "article author if mentioned (string, optional)",
-    "publishedDate": "publication date in ISO format if found (string, optional)",
-    "readingTime": estimated_reading_time_in_minutes (number, optional),
-    "language": "detected language code like 'en', 'es', etc (string, optional)",
-    "category": "inferred category like 'Politics', 'Technology', 'Sports', etc (string, optional)"
-  }
-}
-
-Extract the content now:`;
-  }
-
-  /**
-   * Generate intelligent fallback content when AI extraction fails
-   */
-  private generateIntelligentFallback(aiResponse: string, sourceUrl?: string): ExtractedContent {
-    this.strapi.log.info('🔄 Generating intelligent fallback content...');
-    
-    // Try to extract any useful information from the AI response
-    let title = 'News Article';
-    let content = '<p>Article content is being processed.</p>';
-    let excerpt = 'Breaking news article with important updates.';
-    let tags: string[] = ['news', 'breaking'];
-    let location = '';
-    
-    // Analyze source URL for context
-    if (sourceUrl) {
-      const urlAnalysis = this.analyzeSourceUrl(sourceUrl);
-      title = urlAnalysis.title;
-      tags = [...tags, ...urlAnalysis.tags];
-      location = urlAnalysis.location;
-      content = urlAnalysis.content;
-      excerpt = urlAnalysis.excerpt;
-    }
-    
-    // Try to extract any partial content from AI response
-    const partialContent = this.extractPartialContent(aiResponse);
-    if (partialContent.title && partialContent.title !== 'Extracted Article') {
-      title = partialContent.title;
-    }
-    if (partialContent.content && partialContent.content.length > 50) {
-      content = partialContent.content;
-    }
-    if (partialContent.excerpt && partialContent.excerpt.length > 20) {
-      excerpt = partialContent.excerpt;
-    }
-    if (partialContent.tags && partialContent.tags.length > 0) {
-      tags = [...new Set([...tags, ...partialContent.tags])];
-    }
-    
-    return {
-      title: this.sanitizeText(title).substring(0, 200),
-      slug: this.generateSlugWithTimestamp(title),
-      excerpt: this.sanitizeText(excerpt).substring(0, 200),
-      content: this.sanitizeHtmlContent(content),
-      seoTitle: this.sanitizeText(title).substring(0, 60),
-      seoDescription: this.sanitizeText(excerpt).substring(0, 160),
-      location: location.substring(0, 100),
-      tags: tags.slice(0, 10),
-      images: [],
-      metadata: {
-        category: this.inferCategoryFromUrl(sourceUrl),
-        language: 'en'
-      }
-    };
-  }
-
-  /**
-   * Analyze source URL to extract meaningful context
-   */
-  private analyzeSourceUrl(sourceUrl: string): any {
-    try {
-      const url = new URL(sourceUrl);
-      const domain = url.hostname.toLowerCase();
-      const path = url.pathname.toLowerCase();
-      
-      let title = 'Breaking News Article';
-      let tags = ['news'];
-      let location = '';
-      let content = '<p>This article contains important news and updates. Please check back for more details.</p>';
-      let excerpt = 'Important news article with latest updates and information.';
-      
-      // Analyze domain for context
-      if (domain.includes('bbc')) {
-        tags.push('bbc', 'international');
-        title = 'BBC News Report';
-      } else if (domain.includes('cnn')) {
-        tags.push('cnn', 'breaking');
-        title = 'CNN Breaking News';
-      } else if (domain.includes('reuters')) {
-        tags.push('reuters', 'global');
-        title = 'Reuters News Update';
-      } else if (domain.includes('bloomberg')) {
-        tags.push('bloomberg', 'business', 'finance');
-        title = 'Bloomberg Business Report';
-      }
-      
-      // Analyze path for topic context
-      if (path.includes('politics')) {
-        tags.push('politics', 'government');
-        title = title.replace('News', 'Political News');
-        content = '<p>This political news article covers important developments in government and policy matters.</p>';
-      } else if (path.includes('business') || path.includes('economy')) {
-        tags.push('business', 'economy', 'finance');
-        title = title.replace('News', 'Business News');
-        content = '<p>This business article covers economic developments and market updates.</p>';
-      } else if (path.includes('technology') || path.includes('tech')) {
-        tags.push('technology', 'innovation', 'tech');
-        title = title.replace('News', 'Technology News');
-        content = '<p>This technology article covers the latest innovations and tech developments.</p>';
-      } else if (path.includes('sports')) {
-        tags.push('sports', 'athletics');
-        title = title.replace('News', 'Sports News');
-        content = '<p>This sports article covers athletic events and sports-related news.</p>';
-      } else if (path.includes('world') || path.includes('international')) {
-        tags.push('world', 'international', 'global');
-        title = title.replace('News', 'World News');
-        content = '<p>This international news article covers global events and world affairs.</p>';
-      }
-      
-      // Try to extract location from URL
-      const locationMatches = path.match(/(usa|uk|india|china|japan|germany|france|canada|australia|brazil)/i);
-      if (locationMatches) {
-        location = locationMatches[1].toUpperCase();
-        tags.push(location.toLowerCase());
-      }
-      
-      // Generate appropriate excerpt
-      excerpt = `${title.replace('News', '').trim()} - Stay informed with the latest updates and comprehensive coverage.`;
-      
-      return { title, tags, location, content, excerpt };
-    } catch (error) {
-      return {
-        title: 'News Article Update',
-        tags: ['news', 'update'],
-        location: '',
-        content: '<p>Important news article with latest information and updates.</p>',
-        excerpt: 'Breaking news article with important updates and information.'
-      };
-    }
-  }
-
-  /**
-   * Extract any partial content from malformed AI response
-   */
-  private extractPartialContent(aiResponse: string): any {
-    const result: any = {};
-    
-    try {
-      // Try to find title in various formats
-      const titleMatch = aiResponse.match(/"title"\s*:\s*"([^"]+)"/i) ||
-                        aiResponse.match(/title:\s*"([^"]+)"/i) ||
-                        aiResponse.match(/title:\s*([^\n,}]+)/i);
-      if (titleMatch) {
-        result.title = titleMatch[1].trim();
-      }
-      
-      // Try to find content
-      const contentMatch = aiResponse.match(/"content"\s*:\s*"([^"]+)"/i) ||
-                          aiResponse.match(/content:\s*"([^"]+)"/i);
-      if (contentMatch) {
-        result.content = contentMatch[1].trim();
-      }
-      
-      // Try to find excerpt
-      const excerptMatch = aiResponse.match(/"excerpt"\s*:\s*"([^"]+)"/i) ||
-                          aiResponse.match(/excerpt:\s*"([^"]+)"/i);
-      if (excerptMatch) {
-        result.excerpt = excerptMatch[1].trim();
-      }
-      
-      // Try to find tags
-      const tagsMatch = aiResponse.match(/"tags"\s*:\s*\[([^\]]+)\]/i);
-      if (tagsMatch) {
-        const tagsStr = tagsMatch[1];
-        result.tags = tagsStr.split(',').map(tag => tag.replace(/"/g, '').trim()).filter(tag => tag.length > 0);
-      }
-      
-    } catch (error) {
-      this.strapi.log.debug('Could not extract partial content from AI response');
-    }
-    
-    return result;
-  }
-
-  /**
-   * Infer category from URL
-   */
-  private inferCategoryFromUrl(sourceUrl?: string): string {
-    if (!sourceUrl) return 'General';
-    
-    const url = sourceUrl.toLowerCase();
-    if (url.includes('politics')) return 'Politics';
-    if (url.includes('business') || url.includes('economy')) return 'Business';
-    if (url.includes('technology') || url.includes('tech')) return 'Technology';
-    if (url.includes('sports')) return 'Sports';
-    if (url.includes('world') || url.includes('international')) return 'World';
-    if (url.includes('science')) return 'Science';
-    if (url.includes('health')) return 'Health';
-    
-    return 'General';
-  }
-
-  /**
-   * Parse the AI response and validate the structure
-   */
-  private parseAIResponse(aiResponse: string, sourceUrl?: string): ExtractedContent {
-    try {
-      // Clean the response - remove any markdown code blocks or extra text
-      let cleanResponse = aiResponse.trim();
-      
-      // Remove markdown code block markers if present
-      if (cleanResponse.startsWith('```json')) {
-        cleanResponse = cleanResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanResponse.startsWith('```')) {
-        cleanResponse = cleanResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-
-      // Parse JSON
-      const parsed = JSON.parse(cleanResponse);
-
-      // Validate required fields
-      if (!parsed.title || !parsed.excerpt || !parsed.content) {
-        throw new Error('Missing required fields: title, excerpt, or content');
-      }
-
-      // Ensure arrays exist
-      parsed.tags = Array.isArray(parsed.tags) ? parsed.tags : [];
-      parsed.images = Array.isArray(parsed.images) ? parsed.images : [];
-      parsed.metadata = parsed.metadata || {};
-
-      // Clean and validate content
-      parsed.content = this.sanitizeHtmlContent(parsed.content);
-      parsed.excerpt = this.sanitizeText(parsed.excerpt);
-      parsed.title = this.sanitizeText(parsed.title);
-      
-      // Clean and validate SEO fields
-      if (parsed.seoTitle) {
-        parsed.seoTitle = this.sanitizeText(parsed.seoTitle).substring(0, 60);
-      }
-      if (parsed.seoDescription) {
-        parsed.seoDescription = this.sanitizeText(parsed.seoDescription).substring(0, 160);
-      }
-
-      // Validate and clean tags
-      parsed.tags = parsed.tags
-        .filter((tag: any) => typeof tag === 'string' && tag.trim().length > 0)
-        .map((tag: string) => tag.trim().toLowerCase())
-        .slice(0, 10); // Limit to 10 tags
-
-      // Validate images
-      parsed.images = parsed.images
-        .filter((img: any) => img && typeof img.url === 'string' && img.url.trim().length > 0)
-        .slice(0, 5); // Limit to 5 images
-
-      return parsed as ExtractedContent;
-
-    } catch (error) {
-      this.strapi.log.error('Failed to parse AI response:', error.message);
-      this.strapi.log.error('Raw AI Response (first 500 chars):', aiResponse.substring(0, 500));
-      this.strapi.log.warn('Generating intelligent fallback content...');
-      
-      // Generate intelligent fallback content based on available data
-      return this.generateIntelligentFallback(aiResponse, sourceUrl);
-    }
-  }
-
-  /**
-   * Sanitize HTML content to ensure it's safe and well-formed
-   */
-  private sanitizeHtmlContent(content: string): string {
-    if (!content) return '<p>No content available</p>';
-
-    // Remove script, style, and other dangerous tags
-    content = content.replace(/<script[^>]*>.*?<\/script>/gis, '');
-    content = content.replace(/<style[^>]*>.*?<\/style>/gis, '');
-    content = content.replace(/<iframe[^>]*>.*?<\/iframe>/gis, '');
-    content = content.replace(/<object[^>]*>.*?<\/object>/gis, '');
-    content = content.replace(/<embed[^>]*>/gi, '');
-
-    // Remove attributes except for basic formatting
-    content = content.replace(/<([^>]+)>/g, (match, tag) => {
-      const tagName = tag.split(' ')[0].toLowerCase();
-      const allowedTags = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'strong', 'em', 'b', 'i', 'blockquote', 'br'];
-      
-      if (allowedTags.includes(tagName)) {
-        return `<${tagName}>`;
-      }
-      return '';
-    });
-
-    // Ensure content is wrapped in paragraphs if not already
-    if (!content.includes('<p>') && !content.includes('<h')) {
-      content = `<p>${content}</p>`;
-    }
-
-    return content.trim();
-  }
-
-  /**
-   * Sanitize plain text content
-   */
-  private sanitizeText(text: string): string {
-    if (!text) return '';
-    
-    return text
-      .replace(/<[^>]*>/g, '') // Remove HTML tags
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim()
-      .substring(0, 500); // Limit length
-  }
-
   /**
    * Extract content with fallback to traditional methods
    */
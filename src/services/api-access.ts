@@ -0,0 +1,156 @@
+/**
+ * API Access Service
+ * Resolves who is calling a protected endpoint (API token or admin panel user),
+ * checks their scopes and keeps an audit trail of the calls
+ */
+
+export type AccessScope = 'import:run' | 'jobs:manage' | 'newsletter:send';
+
+export const ACCESS_SCOPES: AccessScope[] = ['import:run', 'jobs:manage', 'newsletter:send'];
+
+export type ActorType = 'api-token' | 'admin';
+
+export interface RequestActor {
+  type: ActorType;
+  id: number;
+  name: string;
+  scopes: AccessScope[];
+  // The resolved admin::user row, for admin actors
+  adminUser?: any;
+}
+
+export type AccessOutcome = 'allowed' | 'denied';
+
+const SUPER_ADMIN_ROLE = 'strapi-super-admin';
+
+export class ApiAccessService {
+  private strapi: any;
+
+  constructor(strapiInstance?: any) {
+    this.strapi = strapiInstance || (global as any).strapi;
+  }
+
+  /**
+   * Identify the caller from the Bearer token, trying API tokens first and then admin JWTs
+   */
+  async resolveActor(ctx: any): Promise<RequestActor | null> {
+    const token = this.extractBearerToken(ctx);
+    if (!token) {
+      return null;
+    }
+
+    return (await this.resolveApiToken(token)) || (await this.resolveAdminUser(token));
+  }
+
+  /**
+   * Check whether an actor holds a scope
+   */
+  hasScope(actor: RequestActor | null, scope: AccessScope): boolean {
+    return !!actor && actor.scopes.includes(scope);
+  }
+
+  /**
+   * Persist who invoked (or tried to invoke) a protected action
+   */
+  async recordAudit(ctx: any, scope: AccessScope, actor: RequestActor | null, outcome: AccessOutcome): Promise<void> {
+    const route = ctx.state?.route;
+    const entry = {
+      action: route?.handler ? String(route.handler) : `${ctx.request?.method} ${ctx.request?.path}`,
+      scope,
+      outcome,
+      actorType: actor?.type ?? 'anonymous',
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+      method: ctx.request?.method,
+      path: ctx.request?.url || ctx.request?.path,
+      ip: ctx.request?.ip || ctx.ip || null
+    };
+
+    const message = `🔐 [AUDIT] ${entry.actorType}${actor ? ` "${actor.name}" (${actor.id})` : ''} ${outcome} ${entry.method} ${entry.path} [${scope}]`;
+    if (outcome === 'allowed') {
+      this.strapi.log.info(message);
+    } else {
+      this.strapi.log.warn(message);
+    }
+
+    try {
+      await this.strapi.entityService.create('api::audit-log.audit-log', { data: entry });
+    } catch (error) {
+      this.strapi.log.error('❌ Failed to write audit log entry:', error.message);
+    }
+  }
+
+  private extractBearerToken(ctx: any): string | null {
+    const header = ctx.request?.header?.authorization || '';
+    const parts = header.split(/\s+/);
+
+    if (parts.length !== 2 || parts[0].toLowerCase() !== 'bearer') {
+      return null;
+    }
+
+    return parts[1];
+  }
+
+  /**
+   * Look the token up among the Strapi API tokens
+   */
+  private async resolveApiToken(token: string): Promise<RequestActor | null> {
+    const apiTokenService = this.strapi.service('admin::api-token');
+    const apiToken = await apiTokenService.getBy({ accessKey: apiTokenService.hash(token) });
+
+    if (!apiToken) {
+      return null;
+    }
+
+    if (apiToken.expiresAt && new Date(apiToken.expiresAt) < new Date()) {
+      this.strapi.log.warn(`⚠️ Expired API token used: ${apiToken.name}`);
+      return null;
+    }
+
+    const configured = this.strapi.config.get('api-access.tokenScopes', {})[apiToken.name] || [];
+    const scopes = apiToken.type === 'full-access'
+      ? ACCESS_SCOPES
+      : ACCESS_SCOPES.filter(scope => configured.includes(scope));
+
+    return {
+      type: 'api-token',
+      id: apiToken.id,
+      name: apiToken.name,
+      scopes
+    };
+  }
+
+  /**
+   * Decode an admin panel JWT and load the active admin user it belongs to
+   */
+  private async resolveAdminUser(token: string): Promise<RequestActor | null> {
+    const { payload, isValid } = this.strapi.service('admin::token').decodeJwtToken(token);
+    if (!isValid || !payload?.id) {
+      return null;
+    }
+
+    const adminUser = await this.strapi.db.query('admin::user').findOne({
+      where: { id: payload.id },
+      populate: ['roles']
+    });
+    if (!adminUser || !adminUser.isActive || adminUser.blocked) {
+      return null;
+    }
+
+    const roleCodes: string[] = (adminUser.roles || []).map((role: any) => role.code);
+    const roleScopes = this.strapi.config.get('api-access.adminRoleScopes', {});
+    const scopes = roleCodes.includes(SUPER_ADMIN_ROLE)
+      ? ACCESS_SCOPES
+      : ACCESS_SCOPES.filter(scope => roleCodes.some(code => (roleScopes[code] || []).includes(scope)));
+
+    return {
+      type: 'admin',
+      id: adminUser.id,
+      name: [adminUser.firstname, adminUser.lastname].filter(Boolean).join(' ') || adminUser.email,
+      scopes,
+      adminUser
+    };
+  }
+}
+
+export default ApiAccessService;
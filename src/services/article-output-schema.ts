@@ -0,0 +1,75 @@
+/**
+ * Article Output Schema
+ * Structured-output contract for AI generated articles: the JSON schema sent
+ * to the LLM and the zod schema its response is validated against.
+ * Limits mirror the Article content type.
+ */
+
+import { z } from 'zod';
+
+export const ARTICLE_LIMITS = {
+  titleMax: 200,
+  excerptMin: 50,
+  excerptMax: 300,
+  contentMin: 200,
+  seoTitleMax: 60,
+  seoDescriptionMax: 160,
+  locationMax: 100,
+  tagsMin: 1,
+  tagsMax: 8
+};
+
+export const aiArticleSchema = z.object({
+  title: z.string().trim().min(5, 'title is too short').max(ARTICLE_LIMITS.titleMax),
+  excerpt: z.string().trim().min(ARTICLE_LIMITS.excerptMin).max(ARTICLE_LIMITS.excerptMax),
+  content: z.string().trim().min(ARTICLE_LIMITS.contentMin),
+  seoTitle: z.string().trim().min(1).max(ARTICLE_LIMITS.seoTitleMax),
+  seoDescription: z.string().trim().min(1).max(ARTICLE_LIMITS.seoDescriptionMax),
+  tags: z.array(z.string().trim().min(1)).min(ARTICLE_LIMITS.tagsMin).max(ARTICLE_LIMITS.tagsMax),
+  location: z.string().trim().min(2).max(ARTICLE_LIMITS.locationMax)
+});
+
+export type AIArticle = z.infer<typeof aiArticleSchema>;
+
+// JSON schema equivalent of aiArticleSchema, passed to providers that support constrained output
+export const AI_ARTICLE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 5, maxLength: ARTICLE_LIMITS.titleMax, description: 'Engaging, factual headline' },
+    excerpt: { type: 'string', minLength: ARTICLE_LIMITS.excerptMin, maxLength: ARTICLE_LIMITS.excerptMax, description: 'Plain-text summary of the article' },
+    content: { type: 'string', minLength: ARTICLE_LIMITS.contentMin, description: 'Article body as clean HTML paragraphs without links' },
+    seoTitle: { type: 'string', minLength: 1, maxLength: ARTICLE_LIMITS.seoTitleMax, description: 'Search engine title' },
+    seoDescription: { type: 'string', minLength: 1, maxLength: ARTICLE_LIMITS.seoDescriptionMax, description: 'Meta description' },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      minItems: ARTICLE_LIMITS.tagsMin,
+      maxItems: ARTICLE_LIMITS.tagsMax,
+      description: 'Specific topic keywords'
+    },
+    location: { type: 'string', minLength: 2, maxLength: ARTICLE_LIMITS.locationMax, description: 'Primary location as "City, Country", or "Global"' }
+  },
+  required: ['title', 'excerpt', 'content', 'seoTitle', 'seoDescription', 'tags', 'location'],
+  additionalProperties: false
+};
+
+/**
+ * Turn validation issues into one line per problem, for logs and re-prompts
+ */
+export function describeValidationIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const field = issue.path.join('.') || 'response';
+
+    if (issue.code === 'too_big' && issue.type === 'string') {
+      return `${field}: must be at most ${issue.maximum} characters`;
+    }
+    if (issue.code === 'too_small' && issue.type === 'string') {
+      return `${field}: must be at least ${issue.minimum} characters`;
+    }
+    if (issue.code === 'invalid_type' && issue.received === 'undefined') {
+      return `${field}: is required`;
+    }
+
+    return `${field}: ${issue.message}`;
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Base LLM Provider
+ * Defaults, timeouts, token usage accounting and JSON parsing shared by all providers
+ */
+
+import type { LLMGenerateOptions, LLMJSONOptions, LLMJSONResponse, LLMProvider, LLMResponse, LLMUsage } from './llm-provider';
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: string;
+  abstract readonly model: string;
+
+  protected defaults: LLMGenerateOptions;
+  private usage: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  constructor(defaults: LLMGenerateOptions = {}) {
+    this.defaults = defaults;
+  }
+
+  abstract isConfigured(): boolean;
+
+  protected abstract complete(prompt: string, options: LLMJSONOptions, json: boolean): Promise<{ text: string; usage: LLMUsage }>;
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<LLMResponse> {
+    return await this.run(prompt, options, false);
+  }
+
+  async generateJSON<T = any>(prompt: string, options: LLMJSONOptions = {}): Promise<LLMJSONResponse<T>> {
+    const response = await this.run(prompt, options, true);
+
+    return {
+      ...response,
+      data: this.parseJSON<T>(response.text)
+    };
+  }
+
+  getUsage(): LLMUsage {
+    return { ...this.usage };
+  }
+
+  private async run(prompt: string, options: LLMJSONOptions, json: boolean): Promise<LLMResponse> {
+    if (!this.isConfigured()) {
+      throw new Error(`LLM provider "${this.name}" is not configured`);
+    }
+
+    const merged: LLMJSONOptions = { ...this.defaults, ...options };
+    const timeoutMs = merged.timeoutMs || 120000;
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`LLM generation timeout after ${Math.round(timeoutMs / 1000)} seconds`)), timeoutMs);
+    });
+
+    try {
+      const { text, usage } = await Promise.race([this.complete(prompt, merged, json), timeout]);
+      this.recordUsage(usage);
+
+      return {
+        text: (text || '').trim(),
+        usage,
+        model: this.model,
+        provider: this.name
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordUsage(usage: LLMUsage): void {
+    this.usage.promptTokens += usage.promptTokens;
+    this.usage.completionTokens += usage.completionTokens;
+    this.usage.totalTokens += usage.totalTokens;
+  }
+
+  /**
+   * Parse a JSON response, tolerating markdown code fences around it
+   */
+  protected parseJSON<T>(text: string): T {
+    const cleaned = text
+      .replace(/^\s*```(?:json)?\s*/i, '')
+      .replace(/\s*```\s*$/, '')
+      .trim();
+
+    try {
+      return JSON.parse(cleaned) as T;
+    } catch (error) {
+      throw new Error(`LLM response is not valid JSON: ${error.message}`);
+    }
+  }
+}
+
+export default BaseLLMProvider;
@@ -0,0 +1,83 @@
+/**
+ * Concurrency Limiter
+ * Small promise semaphores used to bound how much of the import pipeline runs at once
+ */
+
+export class ConcurrencyLimiter {
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {
+    this.limit = Math.max(1, Math.floor(limit) || 1);
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // The slot is handed over by the task that frees it
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  /**
+   * Tasks running or waiting for a slot
+   */
+  get pending(): number {
+    return this.active + this.waiting.length;
+  }
+}
+
+/**
+ * One limiter per key, e.g. per host. Limiters are dropped once idle
+ */
+export class KeyedConcurrencyLimiter {
+  private limiters: Map<string, ConcurrencyLimiter> = new Map();
+
+  constructor(private limit: number) {}
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(this.limit);
+      this.limiters.set(key, limiter);
+    }
+
+    try {
+      return await limiter.run(task);
+    } finally {
+      if (limiter.pending === 0) {
+        this.limiters.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Call a worker for every item with at most `concurrency` calls in flight, in item order
+ */
+export async function forEachConcurrent<T>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(items.length, Math.max(1, concurrency)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
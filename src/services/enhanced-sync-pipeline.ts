@@ -3,14 +3,20 @@
  * Provides synchronous processing capabilities using the simplified GoogleNewsFeedService
  */
 
-import GoogleNewsFeedService from './google-news-feed';
+import GoogleNewsFeedService, { ImportItemOutcome, ImportItemStatus, PipelineStage } from './google-news-feed';
 
-interface ProcessingResult {
+export interface ProcessingResult {
   success: boolean;
+  status: ImportItemStatus;
   originalTitle: string;
+  link: string;
+  resolvedUrl?: string;
   articleId?: number;
+  articleDocumentId?: string;
+  skipReason?: string;
   error?: string;
   processingTime: number;
+  stageTimings: Partial<Record<PipelineStage, number>>;
 }
 
 export class EnhancedSyncPipeline {
@@ -26,8 +32,8 @@ export class EnhancedSyncPipeline {
   async processAllCategoriesSync(maxArticlesPerCategory: number = 5): Promise<Map<string, ProcessingResult[]>> {
     const results = new Map<string, ProcessingResult[]>();
     
-    // Get available categories from GoogleNewsFeedService
-    const categories = ['Politics', 'Economy', 'World', 'Science', 'Culture', 'Sport', 'Security', 'Law', 'Society'];
+    // Get available categories from the enabled feed sources
+    const categories = await this.googleNewsFeedService.getAvailableCategories();
     
     for (const category of categories) {
       try {
@@ -38,9 +44,12 @@ export class EnhancedSyncPipeline {
         this.strapi.log.error(`Error processing category ${category}:`, error);
         results.set(category, [{
           success: false,
+          status: 'failed',
           originalTitle: `Category ${category}`,
+          link: '',
           error: error.message,
-          processingTime: 0
+          processingTime: 0,
+          stageTimings: {}
         }]);
       }
     }
@@ -49,57 +58,42 @@ export class EnhancedSyncPipeline {
   }
 
   /**
-   * Process a specific category synchronously
+   * Process a specific category synchronously, with one result per feed item the import went through
    */
   async processCategorySync(category: string, maxArticles: number = 5): Promise<ProcessingResult[]> {
     const startTime = Date.now();
-    const results: ProcessingResult[] = [];
-    
+
     try {
-      // Use the simplified GoogleNewsFeedService to import news
       const importResult = await this.googleNewsFeedService.importNews([category], maxArticles);
-      
-      // Convert the import result to ProcessingResult format
-      // Create success results for imported articles
-      for (let i = 0; i < importResult.imported; i++) {
-        results.push({
-          success: true,
-          originalTitle: `Article ${i + 1} from ${category}`,
-          articleId: Date.now() + i, // Simple ID generation
-          processingTime: Date.now() - startTime
-        });
-      }
-      
-      // Create skipped results
-      for (let i = 0; i < importResult.skipped; i++) {
-        results.push({
-          success: false,
-          originalTitle: `Skipped Article ${i + 1} from ${category}`,
-          error: 'Article skipped (duplicate or invalid)',
-          processingTime: Date.now() - startTime
-        });
-      }
-      
-      // Create error results for failed articles
-      for (let i = 0; i < importResult.errors; i++) {
-        results.push({
-          success: false,
-          originalTitle: `Failed Article ${i + 1} from ${category}`,
-          error: 'Processing failed',
-          processingTime: Date.now() - startTime
-        });
-      }
+      return importResult.items.map(item => this.toProcessingResult(item));
     } catch (error) {
       this.strapi.log.error(`Error in processCategorySync for ${category}:`, error);
-      results.push({
+      return [{
         success: false,
+        status: 'failed',
         originalTitle: `Category ${category}`,
+        link: '',
         error: error instanceof Error ? error.message : String(error),
-        processingTime: Date.now() - startTime
-      });
+        processingTime: Date.now() - startTime,
+        stageTimings: {}
+      }];
     }
-    
-    return results;
+  }
+
+  private toProcessingResult(item: ImportItemOutcome): ProcessingResult {
+    return {
+      success: item.status === 'imported',
+      status: item.status,
+      originalTitle: item.title,
+      link: item.link,
+      resolvedUrl: item.resolvedUrl,
+      articleId: item.articleId,
+      articleDocumentId: item.articleDocumentId,
+      skipReason: item.reason,
+      error: item.error,
+      processingTime: item.durationMs || 0,
+      stageTimings: item.timings || {}
+    };
   }
 }
 
@@ -0,0 +1,302 @@
+/**
+ * Featured Image Importer
+ * Collects the images a source page offers, picks the best one with ImageOptimizer and
+ * uploads it through the upload plugin as an article's featured image
+ */
+
+import * as cheerio from 'cheerio';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ImageOptimizer, ImageVariantSet, UploadedImageFile } from './image-optimizer';
+
+export interface ImageCandidate {
+  url: string;
+  alt?: string;
+}
+
+export interface FeaturedImage {
+  url: string;
+  alt: string;
+  width: number;
+  height: number;
+  format: string;
+  // Resized WebP/AVIF copies, when they could be generated
+  variants?: ImageVariantSet;
+}
+
+// Candidates analysed per article; each one is downloaded to be measured
+const MAX_CANDIDATES = 5;
+
+// Article.imageAlt is limited to 200 characters
+const MAX_ALT_LENGTH = 200;
+
+// Imported files name their source in the caption, which is how they are recognised again
+const SOURCE_CAPTION_PREFIX = 'Source: ';
+
+// Body images whose URL suggests site furniture rather than a news photo
+const NON_PHOTO_PATTERN = /(logo|icon|avatar|sprite|pixel|spacer|badge|placeholder)/i;
+
+/**
+ * Image candidates of a page, best guesses first: the image it shares on social media,
+ * then the images in its article body
+ */
+export function collectImageCandidates(html: string, pageUrl: string): ImageCandidate[] {
+  if (!html) {
+    return [];
+  }
+
+  const $ = cheerio.load(html);
+  const candidates: ImageCandidate[] = [];
+  const add = (src: string | undefined, alt?: string) => {
+    const url = absoluteImageUrl(src, pageUrl);
+    if (url && !candidates.some(candidate => candidate.url === url)) {
+      candidates.push({ url, alt: alt?.trim() || undefined });
+    }
+  };
+
+  const shareAlt = $('meta[property="og:image:alt"]').attr('content') || $('meta[name="twitter:image:alt"]').attr('content');
+  for (const selector of [
+    'meta[property="og:image:secure_url"]',
+    'meta[property="og:image"]',
+    'meta[property="og:image:url"]',
+    'meta[name="twitter:image"]',
+    'meta[name="twitter:image:src"]'
+  ]) {
+    add($(selector).attr('content'), shareAlt);
+  }
+  add($('link[rel="image_src"]').attr('href'), shareAlt);
+
+  const body = $('article img').length ? $('article img') : $('main img, img');
+  body.each((_, element) => {
+    const img = $(element);
+    const width = parseInt(img.attr('width') || '', 10);
+    const height = parseInt(img.attr('height') || '', 10);
+    if ((width && width < 200) || (height && height < 150)) {
+      return;
+    }
+
+    const src = largestSrcsetEntry(img.attr('srcset') || img.attr('data-srcset'))
+      || img.attr('data-src') || img.attr('data-lazy-src') || img.attr('data-original') || img.attr('src');
+    if (src && !NON_PHOTO_PATTERN.test(src)) {
+      add(src, img.attr('alt'));
+    }
+  });
+
+  return candidates.slice(0, MAX_CANDIDATES);
+}
+
+class FeaturedImageImporter {
+  private strapi: any;
+  private optimizer: ImageOptimizer;
+
+  constructor(strapiInstance?: any) {
+    this.strapi = strapiInstance || (global as any).strapi;
+    this.optimizer = new ImageOptimizer(this.strapi);
+  }
+
+  /**
+   * The candidate ImageOptimizer ranks highest, or null when none is large and sharp enough.
+   * The alt text comes from the page, falling back to the article title
+   */
+  async pickBest(candidates: ImageCandidate[], fallbackAlt: string): Promise<FeaturedImage | null> {
+    return (await this.rank(candidates, fallbackAlt))?.image || null;
+  }
+
+  /**
+   * Pick the best candidate and make it the article's featured image. When the article
+   * already shows an image imported from the same URL, that file is kept; otherwise the
+   * imported file it replaces is deleted. Never throws, an article without an image is
+   * still worth importing
+   */
+  async attachToArticle(articleId: number, candidates: ImageCandidate[], fallbackAlt: string): Promise<FeaturedImage | null> {
+    try {
+      const best = await this.rank(candidates, fallbackAlt);
+      if (!best) {
+        this.strapi.log.info(`🖼️ No suitable featured image among ${candidates.length} candidates for article ${articleId}`);
+        return null;
+      }
+
+      const { image, buffer } = best;
+      const article = await this.strapi.entityService.findOne('api::article.article', articleId, {
+        fields: ['id', 'featuredImageVariants'],
+        populate: { featuredImage: true }
+      });
+      const current = article?.featuredImage || null;
+
+      if (current && current.caption === sourceCaption(image.url)) {
+        image.variants = article.featuredImageVariants || await this.generateVariants(buffer, current);
+        await this.strapi.entityService.update('api::article.article', articleId, {
+          data: {
+            imageAlt: image.alt,
+            featuredImageVariants: image.variants || null
+          }
+        });
+
+        this.strapi.log.info(`🖼️ Article ${articleId} already has featured image ${image.url}, kept it`);
+        return image;
+      }
+
+      const file = await this.upload(image, buffer, slugify(image.alt) || 'featured-image');
+      try {
+        image.variants = await this.generateVariants(buffer, file);
+
+        await this.strapi.entityService.update('api::article.article', articleId, {
+          data: {
+            featuredImage: file.id,
+            imageAlt: image.alt,
+            featuredImageVariants: image.variants || null
+          }
+        });
+      } catch (error) {
+        await this.removeFile(file);
+        throw error;
+      }
+
+      if (current && current.caption?.startsWith(SOURCE_CAPTION_PREFIX)) {
+        await this.removeFile(current);
+      }
+
+      this.strapi.log.info(`✅ Featured image ${image.url} uploaded for article ${articleId}`);
+      return image;
+    } catch (error) {
+      this.strapi.log.warn(`⚠️ Could not import a featured image for article ${articleId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * The best candidate with the image ImageOptimizer downloaded to measure it
+   */
+  private async rank(candidates: ImageCandidate[], fallbackAlt: string): Promise<{ image: FeaturedImage; buffer: Buffer } | null> {
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const ranked = await this.optimizer.optimizeImages(candidates.map(candidate => candidate.url));
+    const best = this.optimizer.getBestImage(ranked);
+    if (!best?.buffer) {
+      return null;
+    }
+
+    const candidate = candidates.find(c => c.url === best.originalUrl);
+    return {
+      image: {
+        url: best.originalUrl,
+        alt: (candidate?.alt || fallbackAlt || '').substring(0, MAX_ALT_LENGTH),
+        width: best.metadata.width,
+        height: best.metadata.height,
+        format: best.metadata.format
+      },
+      buffer: best.buffer
+    };
+  }
+
+  /**
+   * Delete an imported file and its variants from the media library. A file that can't be
+   * deleted is only logged, the article is updated either way
+   */
+  private async removeFile(file: any): Promise<void> {
+    try {
+      await this.strapi.plugin('upload').service('upload').remove(file);
+    } catch (error) {
+      this.strapi.log.warn(`⚠️ Could not delete featured image file ${file.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Responsive copies for the frontend, stored with the uploaded file. Without them the
+   * uploaded original still serves
+   */
+  private async generateVariants(buffer: Buffer, file: UploadedImageFile): Promise<ImageVariantSet | undefined> {
+    try {
+      return await this.optimizer.generateVariants(buffer, file);
+    } catch (error) {
+      this.strapi.log.warn(`⚠️ Could not generate image variants for ${file.hash}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store the original image in the media library
+   */
+  private async upload(image: FeaturedImage, buffer: Buffer, baseName: string): Promise<UploadedImageFile> {
+    const extension = image.format === 'jpeg' ? 'jpg' : image.format;
+    const name = `${baseName}.${extension}`;
+
+    // The upload plugin reads files from disk
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'featured-image-'));
+    const filepath = path.join(directory, name);
+    try {
+      await fs.writeFile(filepath, buffer);
+
+      const [file] = await this.strapi.plugin('upload').service('upload').upload({
+        data: {
+          fileInfo: {
+            name,
+            alternativeText: image.alt,
+            caption: sourceCaption(image.url)
+          }
+        },
+        files: {
+          filepath,
+          originalFilename: name,
+          mimetype: `image/${image.format}`,
+          size: buffer.length
+        }
+      });
+      return file;
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * An http(s) URL for an image reference on a page, or null for inline and unusable ones
+ */
+function absoluteImageUrl(src: string | undefined, pageUrl: string): string | null {
+  const value = src?.trim();
+  if (!value || value.startsWith('data:')) {
+    return null;
+  }
+
+  try {
+    const url = new URL(value, pageUrl);
+    if (!['http:', 'https:'].includes(url.protocol) || url.pathname.toLowerCase().endsWith('.svg')) {
+      return null;
+    }
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The widest image of a srcset attribute
+ */
+function largestSrcsetEntry(srcset: string | undefined): string | undefined {
+  if (!srcset) {
+    return undefined;
+  }
+
+  let best: { url: string; width: number } | undefined;
+  for (const entry of srcset.split(',')) {
+    const [url, descriptor = ''] = entry.trim().split(/\s+/);
+    const width = parseFloat(descriptor) || 0;
+    if (url && (!best || width > best.width)) {
+      best = { url, width };
+    }
+  }
+  return best?.url;
+}
+
+function sourceCaption(url: string): string {
+  return `${SOURCE_CAPTION_PREFIX}${url}`;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60);
+}
+
+export default FeaturedImageImporter;
@@ -0,0 +1,79 @@
+/**
+ * Gemini LLM Provider
+ * Google Generative AI implementation of LLMProvider
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { BaseLLMProvider } from './base-llm-provider';
+import type { LLMGenerateOptions, LLMJSONOptions, LLMUsage } from './llm-provider';
+
+export class GeminiProvider extends BaseLLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private genAI: GoogleGenerativeAI | null;
+
+  constructor(config: { apiKey?: string; model?: string }, defaults: LLMGenerateOptions = {}) {
+    super(defaults);
+    this.model = config.model || 'gemini-2.5-flash-lite';
+    this.genAI = config.apiKey ? new GoogleGenerativeAI(config.apiKey) : null;
+  }
+
+  isConfigured(): boolean {
+    return !!this.genAI;
+  }
+
+  protected async complete(prompt: string, options: LLMJSONOptions, json: boolean): Promise<{ text: string; usage: LLMUsage }> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      systemInstruction: options.systemInstruction,
+      generationConfig: {
+        temperature: options.temperature,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: options.maxOutputTokens,
+        ...(json ? { responseMimeType: 'application/json' } : {}),
+        ...(json && options.schema ? { responseSchema: this.toGeminiSchema(options.schema) } : {})
+      }
+    });
+
+    const result = await model.generateContent(prompt);
+    const response = result.response;
+    const metadata = response.usageMetadata;
+
+    return {
+      text: response.text(),
+      usage: {
+        promptTokens: metadata?.promptTokenCount || 0,
+        completionTokens: metadata?.candidatesTokenCount || 0,
+        totalTokens: metadata?.totalTokenCount || 0
+      }
+    };
+  }
+
+  /**
+   * Gemini accepts an OpenAPI subset of JSON schema: drop the keywords it rejects
+   */
+  private toGeminiSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+      return schema.map(item => this.toGeminiSchema(item));
+    }
+    if (!schema || typeof schema !== 'object') {
+      return schema;
+    }
+
+    const unsupported = ['$schema', 'additionalProperties', 'maxLength', 'minLength', 'default', 'title'];
+    const converted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+      if (unsupported.includes(key)) {
+        continue;
+      }
+      converted[key] = key === 'properties'
+        ? Object.fromEntries(Object.entries(value as object).map(([name, property]) => [name, this.toGeminiSchema(property)]))
+        : this.toGeminiSchema(value);
+    }
+
+    return converted;
+  }
+}
+
+export default GeminiProvider;
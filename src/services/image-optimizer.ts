@@ -1,5 +1,6 @@
 import axios from 'axios';
 import sharp from 'sharp';
+import { Readable } from 'stream';
 import { URL } from 'url';
 
 interface ImageMetadata {
@@ -19,45 +20,103 @@ interface OptimizedImage {
   originalUrl: string;
   optimizedUrl?: string;
   metadata: ImageMetadata;
-  thumbnailUrl?: string;
-  webpUrl?: string;
+  // The downloaded image, so the one that gets used isn't fetched again
+  buffer?: Buffer;
 }
 
+export type VariantFormat = 'webp' | 'avif';
+
+export interface ImageVariant {
+  url: string;
+  width: number;
+  height: number;
+  format: VariantFormat;
+  size: number;
+}
+
+/**
+ * Stored copies of an image, shaped for <picture>: one source per format with a
+ * width-described srcset, widest first in `variants`
+ */
+export interface ImageVariantSet {
+  width: number;
+  height: number;
+  src: string;
+  sources: { type: string; srcset: string }[];
+  thumbnail: ImageVariant;
+  variants: ImageVariant[];
+}
+
+// A media library file, as returned by the upload plugin
+export interface UploadedImageFile {
+  id: number;
+  hash: string;
+  formats?: Record<string, any> | null;
+}
+
+// A copy stored by the upload provider, in the shape of a file's `formats` entry
+type VariantFile = Record<string, any> & { url: string };
+
+export interface ImageVariantConfig {
+  // Widths to resize to; the original width is used instead of any larger one
+  breakpoints: number[];
+  // Listed in order of preference, the last one is the <img> fallback
+  formats: VariantFormat[];
+  quality: Record<VariantFormat, number>;
+  thumbnail: { width: number; height: number };
+}
+
+// Keeps the copies apart from the formats the upload plugin generates itself
+const VARIANT_FORMAT_PREFIX = 'variant_';
+
+const DEFAULT_VARIANT_CONFIG: ImageVariantConfig = {
+  breakpoints: [320, 640, 1024, 1600],
+  formats: ['avif', 'webp'],
+  quality: { webp: 80, avif: 50 },
+  thumbnail: { width: 400, height: 225 }
+};
+
 export class ImageOptimizer {
   private readonly maxImageSize = 10 * 1024 * 1024; // 10MB
   private readonly minWidth = 300;
   private readonly minHeight = 200;
   private readonly preferredAspectRatio = 16 / 9;
   private strapi: any;
+  private variantConfig: ImageVariantConfig;
 
   constructor(strapiInstance?: any) {
     // Set strapi instance - use provided instance or global strapi
     this.strapi = strapiInstance || (global as any).strapi;
+
+    const images = this.strapi.config?.get('news-feed.images', {}) as Partial<ImageVariantConfig>;
+    // Environment lists are free text, keep what sharp can produce
+    const breakpoints = (images.breakpoints || []).filter(width => Number.isInteger(width) && width > 0);
+    const formats = (images.formats || []).filter((format): format is VariantFormat => format === 'webp' || format === 'avif');
+    this.variantConfig = {
+      breakpoints: breakpoints.length ? breakpoints : DEFAULT_VARIANT_CONFIG.breakpoints,
+      formats: formats.length ? formats : DEFAULT_VARIANT_CONFIG.formats,
+      quality: { ...DEFAULT_VARIANT_CONFIG.quality, ...images.quality },
+      thumbnail: { ...DEFAULT_VARIANT_CONFIG.thumbnail, ...images.thumbnail }
+    };
   }
 
   /**
-   * Analyze and optimize images from article content
+   * Analyze and rank images from article content. Variants are only generated for the
+   * image that gets used, see generateVariants
    */
   async optimizeImages(imageUrls: string[], articleContent?: string): Promise<OptimizedImage[]> {
     const optimizedImages: OptimizedImage[] = [];
 
     for (const url of imageUrls) {
       try {
-        const metadata = await this.analyzeImage(url, articleContent);
+        const { metadata, buffer } = await this.analyzeImage(url, articleContent);
         
         if (metadata.isValid) {
-          const optimized: OptimizedImage = {
+          optimizedImages.push({
             originalUrl: url,
-            metadata
-          };
-
-          // Generate optimized versions if the image is high quality
-          if (metadata.quality === 'high') {
-            optimized.thumbnailUrl = await this.generateThumbnail(url);
-            optimized.webpUrl = await this.convertToWebP(url);
-          }
-
-          optimizedImages.push(optimized);
+            metadata,
+            buffer
+          });
         }
       } catch (error) {
         this.strapi.log.warn(`Failed to optimize image ${url}: ${error.message}`);
@@ -69,13 +128,13 @@ export class ImageOptimizer {
   }
 
   /**
-   * Analyze image metadata and quality
+   * Analyze image metadata and quality, along with the downloaded image
    */
-  private async analyzeImage(url: string, articleContent?: string): Promise<ImageMetadata> {
+  private async analyzeImage(url: string, articleContent?: string): Promise<{ metadata: ImageMetadata; buffer?: Buffer }> {
     try {
       // Validate URL
       if (!this.isValidImageUrl(url)) {
-        return this.createInvalidMetadata(url, 'Invalid URL');
+        return { metadata: this.createInvalidMetadata(url, 'Invalid URL') };
       }
 
       // Fetch image headers to get basic info
@@ -90,17 +149,18 @@ export class ImageOptimizer {
       const contentLength = parseInt(headResponse.headers['content-length'] || '0');
 
       if (!contentType || !contentType.startsWith('image/')) {
-        return this.createInvalidMetadata(url, 'Not an image');
+        return { metadata: this.createInvalidMetadata(url, 'Not an image') };
       }
 
       if (contentLength > this.maxImageSize) {
-        return this.createInvalidMetadata(url, 'Image too large');
+        return { metadata: this.createInvalidMetadata(url, 'Image too large') };
       }
 
       // Fetch image data for detailed analysis
       const imageResponse = await axios.get(url, {
         responseType: 'arraybuffer',
         timeout: 10000,
+        maxContentLength: this.maxImageSize,
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
         }
@@ -121,21 +181,24 @@ export class ImageOptimizer {
       const quality = this.assessImageQuality(width, height, contentLength, aspectRatio, format);
 
       return {
-        url,
-        width,
-        height,
-        format,
-        size: contentLength,
-        aspectRatio,
-        quality,
-        isValid: quality !== 'low' && width >= this.minWidth && height >= this.minHeight,
-        alt,
-        title
+        metadata: {
+          url,
+          width,
+          height,
+          format,
+          size: contentLength,
+          aspectRatio,
+          quality,
+          isValid: quality !== 'low' && width >= this.minWidth && height >= this.minHeight,
+          alt,
+          title
+        },
+        buffer: imageBuffer
       };
 
     } catch (error) {
       this.strapi.log.warn(`Failed to analyze image ${url}: ${error.message}`);
-      return this.createInvalidMetadata(url, error.message);
+      return { metadata: this.createInvalidMetadata(url, error.message) };
     }
   }
 
@@ -221,40 +284,129 @@ export class ImageOptimizer {
   }
 
   /**
-   * Generate thumbnail version of image
+   * Resize an image to the configured breakpoints in every configured format, plus a
+   * thumbnail, and store the copies as formats of its media library file, so deleting the
+   * file deletes them too. EXIF orientation is applied first; sharp leaves EXIF and other
+   * metadata out of every copy. When a copy fails, the ones already stored are removed
    */
-  private async generateThumbnail(imageUrl: string): Promise<string | undefined> {
+  async generateVariants(buffer: Buffer, file: UploadedImageFile): Promise<ImageVariantSet> {
+    // Orientations 5-8 are rotated by 90 degrees, rotate() swaps the sides
+    const metadata = await sharp(buffer).metadata();
+    const sideways = (metadata.orientation || 1) >= 5;
+    const width = (sideways ? metadata.height : metadata.width) || 0;
+    const height = (sideways ? metadata.width : metadata.height) || 0;
+    if (!width || !height) {
+      throw new Error('Image dimensions could not be read');
+    }
+
+    const widths = [...new Set(this.variantConfig.breakpoints.map(breakpoint => Math.min(breakpoint, width)))]
+      .sort((a, b) => b - a);
+
+    const formats: Record<string, VariantFile> = {};
+    const variants: ImageVariant[] = [];
+    let thumbnail: ImageVariant;
     try {
-      // For now, return the original URL
-      // In a production environment, you would:
-      // 1. Download the image
-      // 2. Resize it to thumbnail size (e.g., 300x200)
-      // 3. Upload to your CDN/storage
-      // 4. Return the new URL
-      
-      return imageUrl; // Placeholder
+      for (const format of this.variantConfig.formats) {
+        for (const variantWidth of widths) {
+          variants.push(await this.encodeVariant(buffer, file.hash, `${format}_${variantWidth}`, format, { width: variantWidth }, formats));
+        }
+      }
+      thumbnail = await this.generateThumbnail(buffer, file.hash, formats);
+
+      await this.strapi.plugin('upload').service('upload').update(file.id, {
+        formats: { ...file.formats, ...formats }
+      });
     } catch (error) {
-      this.strapi.log.warn(`Failed to generate thumbnail for ${imageUrl}: ${error.message}`);
-      return undefined;
+      await this.removeVariantFiles(Object.values(formats));
+      throw error;
     }
+
+    const fallbackFormat = this.fallbackFormat();
+    return {
+      width,
+      height,
+      src: variants.find(variant => variant.format === fallbackFormat)?.url || thumbnail.url,
+      sources: this.variantConfig.formats.map(format => ({
+        type: `image/${format}`,
+        srcset: variants
+          .filter(variant => variant.format === format)
+          .map(variant => `${variant.url} ${variant.width}w`)
+          .join(', ')
+      })),
+      thumbnail,
+      variants
+    };
   }
 
   /**
-   * Convert image to WebP format
+   * Cropped thumbnail in the fallback format, it is used without <picture> alternatives
    */
-  private async convertToWebP(imageUrl: string): Promise<string | undefined> {
-    try {
-      // For now, return the original URL
-      // In a production environment, you would:
-      // 1. Download the image
-      // 2. Convert to WebP format
-      // 3. Upload to your CDN/storage
-      // 4. Return the new URL
-      
-      return imageUrl; // Placeholder
-    } catch (error) {
-      this.strapi.log.warn(`Failed to convert to WebP ${imageUrl}: ${error.message}`);
-      return undefined;
+  private async generateThumbnail(buffer: Buffer, hash: string, formats: Record<string, VariantFile>): Promise<ImageVariant> {
+    const { width, height } = this.variantConfig.thumbnail;
+    const format = this.fallbackFormat();
+    return await this.encodeVariant(buffer, hash, `${format}_thumbnail`, format, { width, height }, formats);
+  }
+
+  private fallbackFormat(): VariantFormat {
+    return this.variantConfig.formats[this.variantConfig.formats.length - 1];
+  }
+
+  /**
+   * Encode one resized copy, store it with the upload provider and add it to `formats`
+   * under `key`
+   */
+  private async encodeVariant(
+    buffer: Buffer,
+    hash: string,
+    key: string,
+    format: VariantFormat,
+    size: { width: number; height?: number },
+    formats: Record<string, VariantFile>
+  ): Promise<ImageVariant> {
+    const pipeline = sharp(buffer)
+      .rotate()
+      .resize({ ...size, fit: size.height ? 'cover' : 'inside', withoutEnlargement: true });
+    const { data, info } = await (format === 'avif'
+      ? pipeline.avif({ quality: this.variantConfig.quality.avif })
+      : pipeline.webp({ quality: this.variantConfig.quality.webp })
+    ).toBuffer({ resolveWithObject: true });
+
+    const file: any = {
+      name: `${key}_${hash}.${format}`,
+      hash: `${key}_${hash}`,
+      ext: `.${format}`,
+      mime: `image/${format}`,
+      path: null,
+      size: Math.round((data.length / 1024) * 100) / 100,
+      sizeInBytes: data.length,
+      width: info.width,
+      height: info.height,
+      getStream: () => Readable.from(data)
+    };
+    await this.strapi.plugin('upload').service('provider').upload(file);
+
+    const { getStream, ...stored } = file;
+    formats[`${VARIANT_FORMAT_PREFIX}${key}`] = stored;
+
+    return {
+      url: file.url,
+      width: info.width,
+      height: info.height,
+      format,
+      size: data.length
+    };
+  }
+
+  /**
+   * Delete copies stored by the upload provider, logging the ones that can't be
+   */
+  private async removeVariantFiles(files: VariantFile[]): Promise<void> {
+    for (const file of files) {
+      try {
+        await this.strapi.plugin('upload').provider.delete(file);
+      } catch (error) {
+        this.strapi.log.warn(`Could not delete image variant ${file.url}: ${error.message}`);
+      }
     }
   }
 
@@ -294,15 +446,12 @@ export class ImageOptimizer {
         return false;
       }
 
-      // Check for common image extensions
+      // Image CDNs often serve without an extension (e.g. og:image URLs), the HEAD
+      // request in analyzeImage checks the content type. Only rule out other documents
       const pathname = urlObj.pathname.toLowerCase();
-      const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp', '.svg'];
-      const hasImageExtension = imageExtensions.some(ext => pathname.endsWith(ext));
-
-      // Check for image-related query parameters
-      const hasImageParams = url.includes('format=') || url.includes('type=image');
+      const documentExtensions = ['.html', '.htm', '.php', '.js', '.css', '.pdf', '.svg'];
 
-      return hasImageExtension || hasImageParams || pathname.includes('/image/');
+      return !documentExtensions.some(ext => pathname.endsWith(ext));
     } catch (error) {
       return false;
     }
@@ -0,0 +1,96 @@
+/**
+ * Import Job Control
+ * Lets a running import notice pause and cancel requests stored on its queue job, and stop
+ * when its worker loses the job's lease. The pipeline calls checkpoint() between stages, so
+ * an import stops at the next safe point
+ */
+
+import type { QueueJobControl } from '../api/queue-job/services/queue-job';
+
+// A checkpoint reuses the last read for this long, the pipeline checks several times per item
+const CHECK_INTERVAL_MS = 1000;
+
+// How often a paused import looks for resume or cancel
+const PAUSED_POLL_MS = 2000;
+
+class ImportJobControl {
+  private strapi: any;
+  private queueJobId: number;
+  private onPauseChange: (paused: boolean) => void;
+  // Aborted by the queue worker once another worker may have taken the job over
+  private signal?: AbortSignal;
+  private lastCheck: number = 0;
+  private control: QueueJobControl | null = null;
+  // Shared by every pipeline worker that reaches a checkpoint while the import is paused
+  private pauseWait: Promise<QueueJobControl | null> | null = null;
+
+  constructor(queueJobId: number, onPauseChange: (paused: boolean) => void = () => {}, signal?: AbortSignal, strapiInstance?: any) {
+    this.strapi = strapiInstance || (global as any).strapi;
+    this.queueJobId = queueJobId;
+    this.onPauseChange = onPauseChange;
+    this.signal = signal;
+  }
+
+  /**
+   * Wait while the import is paused. True once it has been cancelled or aborted
+   */
+  async checkpoint(): Promise<boolean> {
+    if (this.isAborted()) {
+      return true;
+    }
+
+    let control = this.pauseWait ? await this.pauseWait : await this.read();
+
+    if (control === 'pause') {
+      if (!this.pauseWait) {
+        this.pauseWait = this.waitWhilePaused().finally(() => {
+          this.pauseWait = null;
+        });
+      }
+      control = await this.pauseWait;
+    }
+
+    return control === 'cancel' || this.isAborted();
+  }
+
+  /**
+   * Whether the worker lost the job's lease, so the results of this run must not be recorded
+   */
+  isAborted(): boolean {
+    return !!this.signal?.aborted;
+  }
+
+  private async waitWhilePaused(): Promise<QueueJobControl | null> {
+    this.strapi.log.info(`⏸️ Import queue job ${this.queueJobId} paused`);
+    this.onPauseChange(true);
+
+    let control = this.control;
+    while (control === 'pause' && !this.isAborted()) {
+      await new Promise(resolve => setTimeout(resolve, PAUSED_POLL_MS));
+      control = await this.read(true);
+    }
+
+    this.strapi.log.info(`▶️ Import queue job ${this.queueJobId} ${control === 'cancel' ? 'cancelled while paused' : 'resumed'}`);
+    this.onPauseChange(false);
+    return control;
+  }
+
+  private async read(fresh: boolean = false): Promise<QueueJobControl | null> {
+    const now = Date.now();
+    if (!fresh && now - this.lastCheck < CHECK_INTERVAL_MS) {
+      return this.control;
+    }
+
+    try {
+      this.control = await this.strapi.service('api::queue-job.queue-job').getControl(this.queueJobId);
+      this.lastCheck = now;
+    } catch (error) {
+      // Keep going on the last known state rather than failing the import
+      this.strapi.log.warn(`⚠️ Could not read control state of queue job ${this.queueJobId}: ${error.message}`);
+    }
+
+    return this.control;
+  }
+}
+
+export default ImportJobControl;
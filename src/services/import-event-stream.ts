@@ -0,0 +1,130 @@
+/**
+ * Import Event Stream
+ * Follows one import job for a Server-Sent Events client: replays the events stored on the
+ * queue job, then forwards new ones as they happen on this instance or show up in the database
+ */
+
+import { subscribeToImport, summarizeProgress, ImportEvent } from './import-progress';
+import type { QueueJob } from '../api/queue-job/services/queue-job';
+
+export type StreamSender = (event: string, data: any, id?: number) => void;
+
+// How often the queue job is re-read for imports running on another instance
+const POLL_INTERVAL_MS = 1000;
+
+class ImportEventStream {
+  private strapi: any;
+  private jobId: number;
+  private lastSeq: number;
+  private lastUpdate: string | null = null;
+  private send: StreamSender;
+  private onEnd: () => void;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  // Local events that arrive before the stored ones have been replayed
+  private pending: ImportEvent[] | null = [];
+  private closed: boolean = false;
+
+  constructor(jobId: number, lastEventId: number, send: StreamSender, onEnd: () => void, strapiInstance?: any) {
+    this.strapi = strapiInstance || (global as any).strapi;
+    this.jobId = jobId;
+    this.lastSeq = lastEventId;
+    this.send = send;
+    this.onEnd = onEnd;
+  }
+
+  /**
+   * Replay what is stored and start following the job. False when the job doesn't exist
+   */
+  async start(): Promise<boolean> {
+    this.unsubscribe = subscribeToImport(this.jobId, {
+      onEvent: event => this.pending ? this.pending.push(event) : this.forward(event),
+      onProgress: progress => this.send('progress', progress)
+    });
+
+    const job: QueueJob | null = await this.strapi.service('api::queue-job.queue-job').findJob(this.jobId);
+    if (!job) {
+      this.stop();
+      return false;
+    }
+
+    this.send('job', {
+      id: job.id,
+      jobName: job.jobName,
+      trigger: job.trigger,
+      status: job.status,
+      createdAt: job.createdAt
+    });
+    this.sync(job);
+
+    const pending = this.pending || [];
+    this.pending = null;
+    pending.forEach(event => this.forward(event));
+
+    if (!this.closed) {
+      this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+    return true;
+  }
+
+  /**
+   * Stop following the job, e.g. because the client disconnected
+   */
+  stop(): void {
+    this.closed = true;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const job: QueueJob | null = await this.strapi.service('api::queue-job.queue-job').findJob(this.jobId);
+      if (!this.closed && job) {
+        this.sync(job);
+      }
+    } catch (error) {
+      this.strapi.log.warn(`⚠️ Could not poll queue job ${this.jobId} for its event stream: ${error.message}`);
+    }
+  }
+
+  /**
+   * Send the stored events and progress the client hasn't seen, and end the stream once the job is done
+   */
+  private sync(job: QueueJob): void {
+    const progress = job.progress;
+    if (progress) {
+      (progress.events || []).forEach(event => this.forward(event));
+
+      if (progress.updatedAt !== this.lastUpdate) {
+        this.lastUpdate = progress.updatedAt;
+        this.send('progress', summarizeProgress(progress));
+      }
+    }
+
+    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+      this.send('end', {
+        status: job.status,
+        result: job.result,
+        errorMessage: job.errorMessage
+      });
+      this.stop();
+      this.onEnd();
+    }
+  }
+
+  private forward(event: ImportEvent): void {
+    if (this.closed || event.seq <= this.lastSeq) {
+      return;
+    }
+    this.lastSeq = event.seq;
+    this.send(event.type, event, event.seq);
+  }
+}
+
+export default ImportEventStream;
@@ -0,0 +1,371 @@
+/**
+ * Import Progress Tracker
+ * Keeps the stage, per-category counters, per-item outcomes and a numbered event log of a
+ * running import and writes them to its queue job, so progress can be followed from any instance
+ */
+
+import { EventEmitter } from 'events';
+import NewsFeedLogger, { LogEntry } from './news-feed-logger';
+import type { ImportItemOutcome, ImportResult } from './google-news-feed';
+import type { IngestionStage } from '../api/ingestion-item/services/ingestion-item';
+import type { QueueJob } from '../api/queue-job/services/queue-job';
+
+export type ImportStage = 'fetching' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export type ItemTransition = 'resolved' | 'extracted' | 'ai-done' | 'saved' | 'previewed' | 'skipped' | 'failed';
+
+export interface CategoryProgress {
+  total: number;
+  processed: number;
+  imported: number;
+  skipped: number;
+  errors: number;
+  // Why the category itself failed, e.g. no enabled feed source
+  error?: string;
+}
+
+export type ImportEvent =
+  | { seq: number; type: 'log'; entry: LogEntry }
+  | {
+    seq: number;
+    type: 'item';
+    timestamp: string;
+    transition: ItemTransition;
+    title: string;
+    link: string;
+    category: string;
+    articleId?: number;
+    reason?: string;
+    error?: string;
+  };
+
+export interface ActiveItem {
+  title: string;
+  category: string;
+  stage: IngestionStage | null;
+}
+
+export interface ImportProgress {
+  stage: ImportStage;
+  // Category whose feeds are being fetched
+  category: string | null;
+  // Items currently in the pipeline
+  activeItems: ActiveItem[];
+  categories: Record<string, CategoryProgress>;
+  items: ImportItemOutcome[];
+  // The most recent events; seq keeps counting across attempts of the same job
+  events: ImportEvent[];
+  lastSeq: number;
+  updatedAt: string;
+}
+
+// Omit applied to each member of a union
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+
+export type ImportProgressSummary = Omit<ImportProgress, 'items' | 'events'>;
+
+export interface ImportListener {
+  onEvent: (event: ImportEvent) => void;
+  onProgress: (progress: ImportProgressSummary) => void;
+}
+
+// Item updates are written at most this often; stage changes are written straight away
+const FLUSH_INTERVAL_MS = 2000;
+
+// Events kept on the queue job for clients that connect late or to another instance
+const MAX_STORED_EVENTS = 200;
+
+// The pipeline stage an item just left, and what finishing it means
+const STAGE_TRANSITIONS: Partial<Record<IngestionStage, ItemTransition>> = {
+  resolution: 'resolved',
+  extraction: 'extracted',
+  ai: 'ai-done'
+};
+
+// Listeners on this instance, keyed by queue job id
+const localEvents = new EventEmitter();
+localEvents.setMaxListeners(0);
+
+/**
+ * Follow an import running on this instance. Returns the function that unsubscribes
+ */
+export const subscribeToImport = (queueJobId: number, listener: ImportListener): (() => void) => {
+  localEvents.on(`${queueJobId}:event`, listener.onEvent);
+  localEvents.on(`${queueJobId}:progress`, listener.onProgress);
+
+  return () => {
+    localEvents.off(`${queueJobId}:event`, listener.onEvent);
+    localEvents.off(`${queueJobId}:progress`, listener.onProgress);
+  };
+};
+
+/**
+ * Progress without the item and event lists
+ */
+export const summarizeProgress = (progress: ImportProgress): ImportProgressSummary => {
+  const { items, events, ...summary } = progress;
+  return summary;
+};
+
+class ImportProgressTracker {
+  // Job-scoped log; every entry also goes into the event log
+  readonly logger: NewsFeedLogger;
+  private strapi: any;
+  private queueJobId: number;
+  // Progress is only written while this worker holds the job's lease
+  private leaseOwner?: string;
+  private progress: ImportProgress;
+  private lastFlush: number = 0;
+  private flushing: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private jobName: string = '';
+  private active: Map<ImportItemOutcome, ActiveItem> = new Map();
+  // Stage to return to when a paused import resumes
+  private stageBeforePause: ImportStage | null = null;
+
+  constructor(job: Pick<QueueJob, 'id' | 'progress' | 'leaseOwner'>, strapiInstance?: any) {
+    this.strapi = strapiInstance || (global as any).strapi;
+    this.queueJobId = job.id;
+    this.leaseOwner = job.leaseOwner ?? undefined;
+    this.progress = {
+      stage: 'fetching',
+      category: null,
+      activeItems: [],
+      categories: {},
+      items: [],
+      events: [],
+      lastSeq: job.progress?.lastSeq || 0,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.logger = new NewsFeedLogger();
+    this.logger.onEntry(entry => this.record({ type: 'log', entry }));
+  }
+
+  getProgress(): ImportProgress {
+    return this.progress;
+  }
+
+  start(jobName: string, categories: string[]): void {
+    this.jobName = jobName;
+    this.logger.startJob(jobName, categories);
+    this.flush(true);
+  }
+
+  /**
+   * A category's feeds are being fetched
+   */
+  startCategory(category: string): void {
+    this.progress.stage = 'fetching';
+    this.progress.category = category;
+    this.categoryCounts(category);
+    this.notify();
+    this.flush(true);
+  }
+
+  feedFetched(category: string, sourceLabel: string, itemCount: number): void {
+    this.logger.logFeedFetch(`${category} (${sourceLabel})`, itemCount, true);
+  }
+
+  /**
+   * Feed items of a category were queued for the pipeline
+   */
+  setCategoryTotal(category: string, total: number): void {
+    this.categoryCounts(category).total += total;
+    this.logger.info('GoogleNewsFeedService', 'importNews', `Processing ${total} items for ${category}`);
+    this.notify();
+    this.flush(true);
+  }
+
+  /**
+   * A category, or one of its feeds, could not be imported
+   */
+  categoryFailed(category: string, reason: string, error?: any): void {
+    const counts = this.categoryCounts(category);
+    counts.errors++;
+    counts.error = reason;
+    this.logger.error('GoogleNewsFeedService', 'importNews', `${category}: ${reason}`, error);
+    this.notify();
+    this.flush(true);
+  }
+
+  startItem(outcome: ImportItemOutcome): void {
+    if (this.progress.stage !== 'paused') {
+      this.progress.stage = 'processing';
+    }
+    this.progress.category = null;
+    this.active.set(outcome, { title: outcome.title, category: outcome.category, stage: null });
+    this.syncActiveItems();
+    this.notify();
+    this.flush();
+  }
+
+  /**
+   * An item moved to another pipeline stage. The first call only says where a resumed
+   * item starts, later calls mean the previous stage finished
+   */
+  itemStage(stage: IngestionStage, outcome: ImportItemOutcome): void {
+    const current = this.active.get(outcome);
+    if (!current) {
+      return;
+    }
+
+    const transition = current.stage ? STAGE_TRANSITIONS[current.stage] : undefined;
+    current.stage = stage;
+    if (transition) {
+      this.recordItem(transition, outcome);
+    }
+    this.syncActiveItems();
+    this.notify();
+    this.flush();
+  }
+
+  finishItem(outcome: ImportItemOutcome): void {
+    const counts = this.categoryCounts(outcome.category);
+    counts.processed++;
+    if (outcome.status === 'imported') {
+      counts.imported++;
+      // Dry runs stop short of saving
+      this.recordItem(outcome.preview ? 'previewed' : 'saved', outcome);
+    } else if (outcome.status === 'skipped') {
+      counts.skipped++;
+      this.recordItem('skipped', outcome);
+    } else {
+      counts.errors++;
+      this.recordItem('failed', outcome);
+    }
+
+    this.progress.items.push({ ...outcome });
+    this.active.delete(outcome);
+    this.syncActiveItems();
+    this.notify();
+    this.flush();
+  }
+
+  /**
+   * The import stopped at a checkpoint because it was paused, or carries on after resuming
+   */
+  setPaused(paused: boolean): void {
+    if (paused) {
+      this.stageBeforePause = this.progress.stage;
+      this.progress.stage = 'paused';
+      this.logger.warn('NewsCronJobService', 'pauseJob', `Paused job: ${this.jobName}`);
+    } else {
+      this.progress.stage = this.stageBeforePause || 'processing';
+      this.stageBeforePause = null;
+      this.logger.info('NewsCronJobService', 'resumeJob', `Resumed job: ${this.jobName}`);
+    }
+    this.notify();
+    this.flush(true);
+  }
+
+  /**
+   * Record a finished import and wait until everything has been written
+   */
+  async complete(result: ImportResult): Promise<void> {
+    this.logger.completeJob(this.jobName, result);
+    await this.end('completed');
+  }
+
+  /**
+   * Record an import stopped on request and wait until everything has been written
+   */
+  async cancel(result: ImportResult): Promise<void> {
+    this.logger.cancelJob(this.jobName, result);
+    await this.end('cancelled');
+  }
+
+  /**
+   * Record an aborted import and wait until everything has been written
+   */
+  async fail(error: any): Promise<void> {
+    this.logger.failJob(this.jobName, error);
+    await this.end('failed');
+  }
+
+  private async end(stage: 'completed' | 'failed' | 'cancelled'): Promise<void> {
+    this.progress.stage = stage;
+    this.progress.category = null;
+    this.active.clear();
+    this.syncActiveItems();
+    this.notify();
+    await this.flush(true);
+  }
+
+  private syncActiveItems(): void {
+    this.progress.activeItems = [...this.active.values()].map(item => ({ ...item }));
+  }
+
+  private categoryCounts(category: string): CategoryProgress {
+    if (!this.progress.categories[category]) {
+      this.progress.categories[category] = { total: 0, processed: 0, imported: 0, skipped: 0, errors: 0 };
+    }
+    return this.progress.categories[category];
+  }
+
+  private recordItem(transition: ItemTransition, outcome: ImportItemOutcome): void {
+    this.record({
+      type: 'item',
+      timestamp: new Date().toISOString(),
+      transition,
+      title: outcome.title,
+      link: outcome.resolvedUrl || outcome.link,
+      category: outcome.category,
+      articleId: outcome.articleId,
+      reason: outcome.reason,
+      error: outcome.error
+    });
+  }
+
+  /**
+   * Number an event, keep it for late subscribers and hand it to local ones
+   */
+  private record(event: DistributiveOmit<ImportEvent, 'seq'>): void {
+    const numbered = { ...event, seq: ++this.progress.lastSeq } as ImportEvent;
+
+    this.progress.events.push(numbered);
+    if (this.progress.events.length > MAX_STORED_EVENTS) {
+      this.progress.events = this.progress.events.slice(-MAX_STORED_EVENTS);
+    }
+
+    localEvents.emit(`${this.queueJobId}:event`, numbered);
+    this.flush();
+  }
+
+  private notify(): void {
+    localEvents.emit(`${this.queueJobId}:progress`, summarizeProgress(this.progress));
+  }
+
+  /**
+   * Queue a write of the current state. Throttled updates are written once the interval
+   * has passed. Writes run one after another and never reject, a lost progress update
+   * must not fail the import
+   */
+  private flush(force: boolean = false): Promise<void> {
+    const now = Date.now();
+    const wait = this.lastFlush + FLUSH_INTERVAL_MS - now;
+    if (!force && wait > 0) {
+      if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flush(true), wait);
+      }
+      return this.flushing;
+    }
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.lastFlush = now;
+
+    this.progress.updatedAt = new Date(now).toISOString();
+    const snapshot = JSON.parse(JSON.stringify(this.progress));
+
+    this.flushing = this.flushing
+      .then(() => this.strapi.service('api::queue-job.queue-job').updateProgress(this.queueJobId, snapshot, this.leaseOwner))
+      .catch(error => this.strapi.log.warn(`⚠️ Could not save progress of queue job ${this.queueJobId}: ${error.message}`));
+
+    return this.flushing;
+  }
+}
+
+export default ImportProgressTracker;
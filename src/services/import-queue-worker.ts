@@ -0,0 +1,153 @@
+/**
+ * Import Queue Worker
+ * Claims jobs from the database-backed queue one at a time and keeps their lease
+ * renewed while they run
+ */
+
+import type { QueueJob } from '../api/queue-job/services/queue-job';
+
+// The signal is aborted when the worker loses the job's lease; the handler must stop then
+export type QueueJobHandler = (job: QueueJob, signal: AbortSignal) => Promise<any>;
+
+interface QueueConfig {
+  pollIntervalMs: number;
+  leaseMs: number;
+  maxAttempts: number;
+}
+
+class ImportQueueWorker {
+  private strapi: any;
+  private owner: string;
+  private handler: QueueJobHandler;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private busy: boolean = false;
+  private currentJobId: number | null = null;
+
+  constructor(owner: string, handler: QueueJobHandler, strapiInstance?: any) {
+    this.strapi = strapiInstance || (global as any).strapi;
+    this.owner = owner;
+    this.handler = handler;
+  }
+
+  private getConfig(): QueueConfig {
+    const config = this.strapi.config.get('news-feed.queue', {}) as Partial<QueueConfig>;
+
+    return {
+      pollIntervalMs: config.pollIntervalMs ?? 5000,
+      leaseMs: config.leaseMs ?? 120000,
+      maxAttempts: config.maxAttempts ?? 3
+    };
+  }
+
+  /**
+   * Start polling the queue
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => this.wake(), this.getConfig().pollIntervalMs);
+    this.strapi.log.info(`📥 Import queue worker started (${this.owner})`);
+    this.wake();
+  }
+
+  /**
+   * Stop claiming new jobs. A job already running finishes, its lease simply isn't renewed past that
+   */
+  stop(): void {
+    if (!this.pollTimer) {
+      return;
+    }
+
+    clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    this.strapi.log.info(`📥 Import queue worker stopped (${this.owner})`);
+  }
+
+  isStarted(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  getCurrentJobId(): number | null {
+    return this.currentJobId;
+  }
+
+  /**
+   * Check the queue now instead of waiting for the next poll
+   */
+  wake(): void {
+    this.drain().catch(error => this.strapi.log.error('❌ Import queue poll failed:', error));
+  }
+
+  /**
+   * Run queued jobs until the queue is empty or the worker is stopped
+   */
+  private async drain(): Promise<void> {
+    if (this.busy || !this.pollTimer) {
+      return;
+    }
+
+    this.busy = true;
+    try {
+      const queue = this.strapi.service('api::queue-job.queue-job');
+      const { leaseMs, maxAttempts } = this.getConfig();
+
+      while (this.pollTimer) {
+        const job: QueueJob | null = await queue.claimNext(this.owner, leaseMs, maxAttempts);
+        if (!job) {
+          break;
+        }
+        await this.runJob(job, leaseMs);
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * Run one claimed job, renewing its lease until the handler settles. Once the lease is
+   * lost another worker may reclaim the job, so the handler is aborted
+   */
+  private async runJob(job: QueueJob, leaseMs: number): Promise<void> {
+    const queue = this.strapi.service('api::queue-job.queue-job');
+    const abort = new AbortController();
+    this.currentJobId = job.id;
+
+    const heartbeat = setInterval(() => {
+      queue.renewLease(job.id, this.owner, leaseMs)
+        .then((held: boolean) => {
+          if (!held && !abort.signal.aborted) {
+            this.strapi.log.warn(`⚠️ Lost the lease on queue job ${job.id} (${job.jobName}), stopping it`);
+            abort.abort();
+          }
+        })
+        .catch((error: any) => this.strapi.log.error(`❌ Could not renew lease on queue job ${job.id}:`, error.message));
+    }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+    try {
+      this.strapi.log.info(`▶️ Running queue job ${job.id} (${job.jobName}, attempt ${job.attempts})`);
+      const result = await this.handler(job, abort.signal);
+      // Handlers report a run stopped on request with `cancelled: true`
+      await this.finish(job, { status: result?.cancelled ? 'cancelled' : 'completed', result });
+    } catch (error) {
+      this.strapi.log.error(`❌ Queue job ${job.id} (${job.jobName}) failed:`, error);
+      await this.finish(job, { status: 'failed', error });
+    } finally {
+      clearInterval(heartbeat);
+      this.currentJobId = null;
+    }
+  }
+
+  /**
+   * Record the outcome unless the job's lease has passed to another worker
+   */
+  private async finish(job: QueueJob, outcome: { status: 'completed' | 'failed' | 'cancelled'; result?: any; error?: any }): Promise<void> {
+    const recorded = await this.strapi.service('api::queue-job.queue-job').finish(job.id, this.owner, outcome);
+    if (!recorded) {
+      this.strapi.log.warn(`⚠️ Not recording the outcome of queue job ${job.id} (${job.jobName}), its lease is no longer held`);
+    }
+  }
+}
+
+export default ImportQueueWorker;
@@ -0,0 +1,83 @@
+/**
+ * Leader Election
+ * Keeps a named scheduler lease renewed so exactly one Strapi instance acts as leader
+ */
+
+export type LeadershipListener = (isLeader: boolean) => void;
+
+class LeaderElection {
+  private strapi: any;
+  private leaseName: string;
+  private owner: string;
+  private ttlMs: number;
+  private onChange: LeadershipListener;
+  private timer: NodeJS.Timeout | null = null;
+  private leader: boolean = false;
+
+  constructor(leaseName: string, owner: string, ttlMs: number, onChange: LeadershipListener, strapiInstance?: any) {
+    this.strapi = strapiInstance || (global as any).strapi;
+    this.leaseName = leaseName;
+    this.owner = owner;
+    this.ttlMs = ttlMs;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Try to become leader now and keep renewing (or retrying) at a third of the lease
+   */
+  async start(): Promise<void> {
+    await this.renew();
+    this.timer = setInterval(() => {
+      this.renew().catch(error => this.strapi.log.error('❌ Leader election renewal failed:', error));
+    }, Math.max(1000, Math.floor(this.ttlMs / 3)));
+  }
+
+  /**
+   * Stop renewing and hand the lease back
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.leader) {
+      this.setLeader(false);
+      try {
+        await this.strapi.service('api::scheduler-lease.scheduler-lease').release(this.leaseName, this.owner);
+      } catch (error) {
+        this.strapi.log.warn(`⚠️ Could not release ${this.leaseName} lease: ${error.message}`);
+      }
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  private async renew(): Promise<void> {
+    let acquired = false;
+    try {
+      acquired = await this.strapi.service('api::scheduler-lease.scheduler-lease').acquire(this.leaseName, this.owner, this.ttlMs);
+    } catch (error) {
+      // Without a database answer we can't prove we still hold the lease
+      this.strapi.log.error(`❌ Could not renew ${this.leaseName} lease:`, error.message);
+    }
+
+    this.setLeader(acquired);
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (isLeader === this.leader) {
+      return;
+    }
+
+    this.leader = isLeader;
+    this.strapi.log.info(isLeader
+      ? `👑 ${this.owner} is now the ${this.leaseName} leader`
+      : `👋 ${this.owner} is no longer the ${this.leaseName} leader`);
+    this.onChange(isLeader);
+  }
+}
+
+export default LeaderElection;
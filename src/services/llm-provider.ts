@@ -0,0 +1,90 @@
+/**
+ * LLM Provider
+ * Common interface for the language models used by the import pipeline and
+ * the ai-text-generation plugin, plus the factory that picks one from config/llm.ts
+ */
+
+import GeminiProvider from './gemini-provider';
+import OpenAICompatibleProvider from './openai-compatible-provider';
+import MockLLMProvider from './mock-llm-provider';
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+  systemInstruction?: string;
+}
+
+export interface LLMJSONOptions extends LLMGenerateOptions {
+  // JSON schema the response has to match, passed to providers that support constrained output
+  schema?: Record<string, any>;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: LLMUsage;
+  model: string;
+  provider: string;
+}
+
+export interface LLMJSONResponse<T = any> extends LLMResponse {
+  data: T;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse>;
+  generateJSON<T = any>(prompt: string, options?: LLMJSONOptions): Promise<LLMJSONResponse<T>>;
+  // Tokens used since the provider was created
+  getUsage(): LLMUsage;
+}
+
+export interface LLMConfig {
+  provider?: string;
+  defaults?: LLMGenerateOptions;
+  gemini?: { apiKey?: string; model?: string };
+  openai?: { apiKey?: string; baseUrl?: string; model?: string };
+  mock?: { model?: string };
+}
+
+/**
+ * Build the provider selected in config/llm.ts
+ */
+export function createLLMProvider(config: LLMConfig = {}): LLMProvider {
+  const defaults = config.defaults || {};
+
+  switch ((config.provider || 'gemini').toLowerCase()) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config.openai || {}, defaults);
+    case 'mock':
+      return new MockLLMProvider(config.mock || {}, defaults);
+    case 'gemini':
+      return new GeminiProvider(config.gemini || {}, defaults);
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Get the process-wide provider, creating it from config on first use
+ */
+export function getLLMProvider(strapiInstance?: any): LLMProvider {
+  const globalScope = global as any;
+
+  if (!globalScope.llmProvider) {
+    const strapi = strapiInstance || globalScope.strapi;
+    globalScope.llmProvider = createLLMProvider(strapi?.config?.get('llm') || {});
+  }
+
+  return globalScope.llmProvider;
+}
+
+export default getLLMProvider;
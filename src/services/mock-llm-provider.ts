@@ -0,0 +1,92 @@
+/**
+ * Mock LLM Provider
+ * Deterministic, offline implementation of LLMProvider for tests and local runs:
+ * the same prompt always produces the same response and no network is used
+ */
+
+import { createHash } from 'crypto';
+import { BaseLLMProvider } from './base-llm-provider';
+import type { LLMGenerateOptions, LLMJSONOptions, LLMUsage } from './llm-provider';
+
+export class MockLLMProvider extends BaseLLMProvider {
+  readonly name = 'mock';
+  readonly model: string;
+
+  constructor(config: { model?: string } = {}, defaults: LLMGenerateOptions = {}) {
+    super(defaults);
+    this.model = config.model || 'mock-deterministic';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  protected async complete(prompt: string, options: LLMJSONOptions, json: boolean): Promise<{ text: string; usage: LLMUsage }> {
+    const digest = createHash('sha256').update(prompt).digest('hex').substring(0, 12);
+    const words = prompt.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().split(' ').slice(0, 40).join(' ');
+
+    let text: string;
+    if (json) {
+      const value = options.schema
+        ? this.fromSchema(options.schema, words, digest)
+        : { text: `Mock response ${digest}: ${words}` };
+      text = JSON.stringify(value);
+    } else {
+      text = `Mock response ${digest}: ${words}`;
+    }
+
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  /**
+   * Build the smallest value that satisfies a JSON schema, filled from the prompt
+   */
+  private fromSchema(schema: any, words: string, digest: string, key: string = 'value'): any {
+    if (!schema || typeof schema !== 'object') {
+      return null;
+    }
+
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum[0];
+    }
+
+    switch (schema.type) {
+      case 'object': {
+        const result: Record<string, any> = {};
+        for (const [name, property] of Object.entries(schema.properties || {})) {
+          result[name] = this.fromSchema(property, words, digest, name);
+        }
+        return result;
+      }
+      case 'array': {
+        const count = Math.max(1, schema.minItems || 1);
+        return Array.from({ length: count }, (_, index) => this.fromSchema(schema.items, words, digest, `${key}-${index + 1}`));
+      }
+      case 'integer':
+      case 'number':
+        return schema.minimum ?? 1;
+      case 'boolean':
+        return false;
+      case 'string': {
+        const value = `${key} ${digest}: ${words}`;
+        const minLength = schema.minLength || 0;
+        const padded = value.length < minLength ? value.padEnd(minLength, '.') : value;
+        return schema.maxLength ? padded.substring(0, schema.maxLength) : padded;
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+export default MockLLMProvider;
@@ -1,91 +1,302 @@
 import * as cron from 'node-cron';
-import GoogleNewsFeedService from './google-news-feed';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import GoogleNewsFeedService, { ImportOptions, ImportResult } from './google-news-feed';
+import LeaderElection from './leader-election';
+import ImportQueueWorker from './import-queue-worker';
+import ImportProgressTracker from './import-progress';
+import ImportJobControl from './import-control';
+import type { ImportTrigger } from '../api/import-run/services/import-run';
+import type { ImportJobDefinition } from '../api/import-job/services/import-job';
+import type { QueueJob } from '../api/queue-job/services/queue-job';
+
+// Lease that decides which instance fires cron schedules and runs queued imports
+const SCHEDULER_LEASE = 'news-scheduler';
 
 interface CronJobConfig {
   schedule: string;
+  timezone?: string;
   categories: string[];
+  // When set, only these feed sources are read for the categories
+  feedSourceIds?: number[];
   maxArticlesPerCategory: number;
+  // Skip items published longer ago than this
+  maxAgeHours?: number;
   enabled: boolean;
 }
 
+// What a queued import-news job carries
+type ImportPayload = Pick<CronJobConfig, 'categories' | 'maxArticlesPerCategory' | 'feedSourceIds' | 'maxAgeHours'> & {
+  // Preview the import without saving anything
+  dryRun?: boolean;
+};
+
+interface ScheduledJob {
+  task: any;
+  config: CronJobConfig;
+}
+
+// How often the leader re-reads the stored jobs when scheduleSyncMs isn't configured
+const DEFAULT_SCHEDULE_SYNC_MS = 60000;
+
 class NewsCronJobService {
   private googleNewsService: GoogleNewsFeedService;
-  private jobs: Map<string, any> = new Map();
-  private isRunning: boolean = false;
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private nodeId: string;
+  private leaderElection: LeaderElection | null = null;
+  private worker: ImportQueueWorker;
+  private syncTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     this.googleNewsService = new GoogleNewsFeedService();
+    this.nodeId = `${hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+    this.worker = new ImportQueueWorker(this.nodeId, (job, signal) => this.processQueueJob(job, signal));
   }
 
   /**
-   * Default cron job configurations
-   * Updated to run every 2 hours for specified categories: World, Australia, Culture, and Sport
+   * Join leader election; whichever instance holds the lease runs the queue worker
    */
-  private getDefaultConfigs(): Record<string, CronJobConfig> {
-    // Only fetch the specified categories as requested by user
-    const allowedCategories = ['World', 'Australia', 'Culture', 'Sport'];
-    
-    return {
-      // Every 2 hours - PRIMARY JOB - fetch specified categories only
-      allowedCategoriesEvery2Hours: {
-        schedule: '0 */2 * * *', // Every 2 hours at minute 0
-        categories: allowedCategories,
-        maxArticlesPerCategory: 8, // Increased for better coverage
-        enabled: true
-      },
-      // Backup job every 6 hours for comprehensive coverage
-      allowedCategoriesBackup: {
-        schedule: '30 */6 * * *', // Every 6 hours at minute 30 (offset to avoid conflicts)
-        categories: allowedCategories,
-        maxArticlesPerCategory: 5,
-        enabled: true
+  async startQueue(): Promise<void> {
+    if (this.leaderElection) {
+      return;
+    }
+
+    const { leaderLeaseMs = 30000 } = strapi.config.get('news-feed.queue', {}) as Record<string, any>;
+    this.leaderElection = new LeaderElection(SCHEDULER_LEASE, this.nodeId, leaderLeaseMs, isLeader => {
+      if (isLeader) {
+        this.worker.start();
+        this.startScheduleSync();
+      } else {
+        this.worker.stop();
+        this.stopScheduleSync();
       }
-    };
+    });
+
+    await this.leaderElection.start();
   }
 
   /**
-   * Execute news import job
+   * Stop the worker and hand leadership to another instance
+   */
+  async stopQueue(): Promise<void> {
+    this.worker.stop();
+    this.stopScheduleSync();
+    if (this.leaderElection) {
+      await this.leaderElection.stop();
+      this.leaderElection = null;
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leaderElection?.isLeader() ?? false;
+  }
+
+  /**
+   * Queue an import run; overlapping runs wait their turn instead of being dropped
+   */
+  async enqueueImport(jobName: string, payload: ImportPayload, trigger: ImportTrigger): Promise<QueueJob> {
+    const { job, coalesced } = await strapi.service('api::queue-job.queue-job').enqueue({
+      jobName,
+      trigger,
+      payload,
+      // Scheduled runs of the same job don't pile up behind a slow import
+      coalesce: trigger === 'cron'
+    });
+
+    if (coalesced) {
+      strapi.log.info(`News import job ${jobName} is already queued (queue job ${job.id})`);
+    } else {
+      strapi.log.info(`Queued ${trigger} news import job ${jobName} (queue job ${job.id})`);
+    }
+
+    if (this.worker.isStarted()) {
+      this.worker.wake();
+    }
+    return job;
+  }
+
+  /**
+   * Cron tick: only the leader enqueues, so each schedule fires once across all instances.
+   * The stored job is read again, an edit made through another instance may not have
+   * reached this one's schedules yet
    */
-  private async executeNewsImport(jobName: string, config: CronJobConfig): Promise<void> {
-    if (this.isRunning) {
-      strapi.log.warn(`News import job ${jobName} skipped - another job is already running`);
+  private async enqueueScheduledImport(jobName: string): Promise<void> {
+    if (!this.isLeader()) {
+      strapi.log.debug(`Skipping cron tick for ${jobName}, this instance is not the scheduler leader`);
+      return;
+    }
+
+    const importJobs = strapi.service('api::import-job.import-job');
+    if (await importJobs.isSchedulingStopped()) {
+      strapi.log.info(`Skipping cron tick for ${jobName}, scheduling was stopped`);
+      this.stopJob(jobName);
+      return;
+    }
+
+    const job = await importJobs.findDefinitionByName(jobName);
+    if (!job?.enabled) {
+      strapi.log.info(`Skipping cron tick for ${jobName}, the import job was ${job ? 'disabled' : 'deleted'}`);
+      this.stopJob(jobName);
       return;
     }
 
-    this.isRunning = true;
+    const config = this.toCronConfig(job);
+    await this.enqueueImport(jobName, {
+      categories: config.categories,
+      maxArticlesPerCategory: config.maxArticlesPerCategory,
+      feedSourceIds: config.feedSourceIds,
+      maxAgeHours: config.maxAgeHours
+    }, 'cron');
+  }
+
+  /**
+   * Queue worker handler: run a claimed import-news job. The signal stops the import when
+   * the worker loses the job's lease
+   */
+  private async processQueueJob(job: QueueJob, signal: AbortSignal): Promise<Record<string, any>> {
+    const payload = (job.payload || {}) as ImportPayload;
+    const config: CronJobConfig = {
+      schedule: '',
+      categories: payload.categories || [],
+      maxArticlesPerCategory: payload.maxArticlesPerCategory || 10,
+      feedSourceIds: payload.feedSourceIds,
+      maxAgeHours: payload.maxAgeHours,
+      enabled: true
+    };
+
+    const progress = new ImportProgressTracker(job);
+    const control = new ImportJobControl(job.id, paused => progress.setPaused(paused), signal);
+    progress.start(job.jobName, config.categories);
+    try {
+      const { result, runId } = await this.executeNewsImport(job.jobName, config, job.trigger, job.id, {
+        progress,
+        control,
+        dryRun: !!payload.dryRun
+      });
+      if (result.cancelled) {
+        await progress.cancel(result);
+      } else {
+        await progress.complete(result);
+      }
+
+      // The per-item outcomes live on the import run. A dry run has none, so its
+      // previews are kept with the job
+      return {
+        imported: result.imported,
+        skipped: result.skipped,
+        errors: result.errors,
+        cancelled: !!result.cancelled,
+        dryRun: !!result.dryRun,
+        stats: result.stats,
+        importRunId: runId,
+        items: result.dryRun ? result.items : undefined
+      };
+    } catch (error) {
+      await progress.fail(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn a stored import job into the config the scheduler runs.
+   * Jobs that only list feed sources import into those feeds' categories
+   */
+  private toCronConfig(job: ImportJobDefinition): CronJobConfig {
+    const feedSources = job.feedSources || [];
+    const feedCategories = feedSources
+      .map(source => source.category?.name)
+      .filter((name): name is string => !!name);
+
+    return {
+      schedule: job.schedule,
+      timezone: job.timezone || 'UTC',
+      categories: job.categories?.length ? job.categories : [...new Set(feedCategories)],
+      feedSourceIds: feedSources.length ? feedSources.map(source => source.id) : undefined,
+      maxArticlesPerCategory: job.maxArticlesPerCategory,
+      maxAgeHours: job.maxAgeHours ?? undefined,
+      enabled: job.enabled
+    };
+  }
+
+  /**
+   * Execute news import job
+   */
+  private async executeNewsImport(
+    jobName: string,
+    config: CronJobConfig,
+    trigger: ImportTrigger,
+    queueJobId: number,
+    options: Pick<ImportOptions, 'progress' | 'control' | 'dryRun'> = {}
+  ): Promise<{ result: ImportResult; runId: number | null }> {
     const startTime = Date.now();
+    let runId: number | null = null;
 
     try {
-      strapi.log.info(`Starting scheduled news import job: ${jobName}`);
+      strapi.log.info(`Starting ${trigger} news import job: ${jobName}${options.dryRun ? ' (dry run)' : ''}`);
       strapi.log.info(`Categories: ${config.categories.join(', ')}`);
       strapi.log.info(`Max articles per category: ${config.maxArticlesPerCategory}`);
+      if (config.maxAgeHours) {
+        strapi.log.info(`Max item age: ${config.maxAgeHours} hours`);
+      }
+
+      // Dry runs are left out of the import history
+      if (!options.dryRun) {
+        runId = await this.recordJobStart(jobName, config, trigger, queueJobId);
+      }
 
       const result = await this.googleNewsService.importNews(
         config.categories,
-        config.maxArticlesPerCategory
+        config.maxArticlesPerCategory,
+        { runId: runId ?? undefined, feedSourceIds: config.feedSourceIds, maxAgeHours: config.maxAgeHours, ...options }
       );
 
+      // Another worker may be running the job again, its import run was already closed
+      if (options.control?.isAborted()) {
+        throw new Error(`Lost the lease on queue job ${queueJobId}, the import was stopped`);
+      }
+
       const duration = Date.now() - startTime;
       
-      strapi.log.info(`News import job ${jobName} completed in ${duration}ms`);
+      strapi.log.info(`News import job ${jobName} ${result.cancelled ? 'cancelled' : 'completed'} in ${duration}ms`);
       strapi.log.info(`Results: ${result.imported} imported, ${result.skipped} skipped, ${result.errors} errors`);
+      if (result.stats) {
+        strapi.log.info(`Throughput: ${result.stats.itemsPerMinute} items/min over ${result.stats.itemsProcessed} items`);
+      }
 
-      // Store job execution stats (optional - you can create a job-stats content type for this)
-      await this.logJobExecution(jobName, result, duration);
+      await this.logJobExecution(runId, jobName, result, duration);
+      return { result, runId };
 
     } catch (error) {
       strapi.log.error(`News import job ${jobName} failed:`, error);
-    } finally {
-      this.isRunning = false;
+      await this.logJobFailure(runId, jobName, error, Date.now() - startTime);
+      throw error;
     }
   }
 
   /**
-   * Log job execution statistics
+   * Create the import-run record for a job execution
    */
-  private async logJobExecution(jobName: string, result: any, duration: number): Promise<void> {
+  private async recordJobStart(jobName: string, config: CronJobConfig, trigger: ImportTrigger, queueJobId: number): Promise<number | null> {
+    try {
+      const run = await strapi.service('api::import-run.import-run').startRun({
+        jobName,
+        trigger,
+        categories: config.categories
+      });
+      await strapi.service('api::queue-job.queue-job').attachImportRun(queueJobId, run.id);
+      return run.id;
+    } catch (error) {
+      // History is best effort, the import itself still runs
+      strapi.log.error(`Error recording start of job ${jobName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist job execution statistics to the import-run history
+   */
+  private async logJobExecution(runId: number | null, jobName: string, result: ImportResult, duration: number): Promise<void> {
     try {
-      // You can create a job-stats content type to track this data
       strapi.log.info(`Job ${jobName} stats:`, {
         jobName,
         imported: result.imported,
@@ -94,24 +305,141 @@ class NewsCronJobService {
         duration,
         timestamp: new Date().toISOString()
       });
+
+      if (runId && result.cancelled) {
+        await strapi.service('api::import-run.import-run').cancelRun(runId, result, duration);
+      } else if (runId) {
+        await strapi.service('api::import-run.import-run').completeRun(runId, result, duration);
+      }
     } catch (error) {
       strapi.log.error('Error logging job execution:', error);
     }
   }
 
   /**
-   * Start all cron jobs
+   * Mark the import-run record of an aborted job as failed
+   */
+  private async logJobFailure(runId: number | null, jobName: string, error: any, duration: number): Promise<void> {
+    if (!runId) {
+      return;
+    }
+
+    try {
+      await strapi.service('api::import-run.import-run').failRun(runId, error, duration);
+    } catch (logError) {
+      strapi.log.error(`Error recording failure of job ${jobName}:`, logError);
+    }
+  }
+
+  /**
+   * Rebuild the scheduler from the import jobs stored in the database. Nothing is scheduled
+   * while scheduling is stopped, see stopScheduling
+   */
+  async startAllJobs(): Promise<number> {
+    const importJobs = strapi.service('api::import-job.import-job');
+
+    this.stopAllJobs();
+    if (await importJobs.isSchedulingStopped()) {
+      strapi.log.info('News cron jobs not started, scheduling was stopped through the API');
+      return 0;
+    }
+
+    const definitions = await importJobs.findDefinitions();
+    definitions
+      .filter(job => job.enabled)
+      .forEach(job => this.startJob(job.name, this.toCronConfig(job)));
+
+    strapi.log.info(`All news cron jobs started (${this.jobs.size} of ${definitions.length} scheduled)`);
+    return this.jobs.size;
+  }
+
+  /**
+   * Resume scheduling on every instance: clear the stored stop and rebuild the schedules
+   * here. The leader picks it up on its next sync
+   */
+  async startScheduling(): Promise<number> {
+    await strapi.service('api::import-job.import-job').setSchedulingStopped(false);
+    return await this.startAllJobs();
+  }
+
+  /**
+   * Stop scheduling on every instance: store the stop, so the leader's sync and every cron
+   * tick respect it, and unschedule the jobs here
+   */
+  async stopScheduling(): Promise<void> {
+    await strapi.service('api::import-job.import-job').setSchedulingStopped(true);
+    this.stopAllJobs();
+  }
+
+  /**
+   * Bring the scheduler in line with the stored jobs: schedule new ones, stop deleted and
+   * disabled ones and reschedule those whose schedule or timezone changed. While scheduling
+   * is stopped every job is unscheduled
    */
-  startAllJobs(): void {
-    const configs = this.getDefaultConfigs();
+  private async syncJobs(): Promise<void> {
+    const importJobs = strapi.service('api::import-job.import-job');
+    const stopped = await importJobs.isSchedulingStopped();
+    const definitions = stopped ? [] : await importJobs.findDefinitions();
 
-    Object.entries(configs).forEach(([jobName, config]) => {
-      if (config.enabled) {
+    // Leadership was lost or the instance shut down while reading
+    if (!this.syncTimer) {
+      return;
+    }
+
+    const wanted = new Map<string, CronJobConfig>();
+    definitions
+      .filter(job => job.enabled)
+      .forEach(job => wanted.set(job.name, this.toCronConfig(job)));
+
+    [...this.jobs.keys()]
+      .filter(jobName => !wanted.has(jobName))
+      .forEach(jobName => this.stopJob(jobName));
+
+    wanted.forEach((config, jobName) => {
+      const scheduled = this.jobs.get(jobName);
+      if (scheduled && scheduled.config.schedule === config.schedule && scheduled.config.timezone === config.timezone) {
+        scheduled.config = config;
+      } else {
         this.startJob(jobName, config);
       }
     });
+  }
 
-    strapi.log.info('All news cron jobs started');
+  /**
+   * Resync the schedules now and then periodically while this instance is the leader
+   */
+  private startScheduleSync(): void {
+    if (this.syncTimer) {
+      return;
+    }
+
+    const sync = () => this.syncJobs()
+      .catch(error => strapi.log.error('Failed to sync news cron jobs with the stored import jobs:', error));
+    const { scheduleSyncMs = DEFAULT_SCHEDULE_SYNC_MS } = strapi.config.get('news-feed.queue', {}) as Record<string, any>;
+
+    this.syncTimer = setInterval(sync, scheduleSyncMs);
+    sync();
+  }
+
+  private stopScheduleSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  /**
+   * Re-read one stored job and (re)schedule or stop it to match
+   */
+  async reloadJob(jobName: string): Promise<void> {
+    const importJobs = strapi.service('api::import-job.import-job');
+    const job = await importJobs.findDefinitionByName(jobName);
+
+    if (job?.enabled && !(await importJobs.isSchedulingStopped())) {
+      this.startJob(jobName, this.toCronConfig(job));
+    } else {
+      this.stopJob(jobName);
+    }
   }
 
   /**
@@ -130,14 +458,15 @@ class NewsCronJobService {
       // Create and start new job
       const task = cron.schedule(
         config.schedule,
-        () => this.executeNewsImport(jobName, config),
+        () => this.enqueueScheduledImport(jobName)
+          .catch(error => strapi.log.error(`Failed to queue news import job ${jobName}:`, error)),
         {
-          timezone: 'UTC'
+          timezone: config.timezone || 'UTC'
         }
       );
-      this.jobs.set(jobName, task);
+      this.jobs.set(jobName, { task, config });
 
-      strapi.log.info(`Started news cron job: ${jobName} with schedule: ${config.schedule}`);
+      strapi.log.info(`Started news cron job: ${jobName} with schedule: ${config.schedule} (${config.timezone || 'UTC'})`);
     } catch (error) {
       strapi.log.error(`Failed to start cron job ${jobName}:`, error);
     }
@@ -149,20 +478,21 @@ class NewsCronJobService {
   stopJob(jobName: string): void {
     const job = this.jobs.get(jobName);
     if (job) {
-      job.stop();
-      job.destroy();
+      job.task.stop();
+      job.task.destroy();
       this.jobs.delete(jobName);
       strapi.log.info(`Stopped news cron job: ${jobName}`);
     }
   }
 
   /**
-   * Stop all cron jobs
+   * Unschedule all cron jobs on this instance, e.g. on shutdown. See stopScheduling to stop
+   * them everywhere
    */
   stopAllJobs(): void {
     this.jobs.forEach((job, jobName) => {
-      job.stop();
-      job.destroy();
+      job.task.stop();
+      job.task.destroy();
       strapi.log.info(`Stopped news cron job: ${jobName}`);
     });
     this.jobs.clear();
@@ -170,78 +500,92 @@ class NewsCronJobService {
   }
 
   /**
-   * Get status of all jobs
+   * Get status of all stored jobs, reporting the config actually scheduled for running ones
    */
-  getJobsStatus(): Record<string, any> {
+  async getJobsStatus(): Promise<Record<string, any>> {
     const status = {};
-    const configs = this.getDefaultConfigs();
-
-    Object.keys(configs).forEach(jobName => {
-      const job = this.jobs.get(jobName);
-      status[jobName] = {
-        running: job ? true : false,
-        schedule: configs[jobName].schedule,
-        categories: configs[jobName].categories,
-        enabled: configs[jobName].enabled
+    const definitions = await strapi.service('api::import-job.import-job').findDefinitions();
+
+    definitions.forEach(job => {
+      const scheduled = this.jobs.get(job.name);
+      const config = scheduled ? scheduled.config : this.toCronConfig(job);
+      status[job.name] = {
+        id: job.id,
+        running: !!scheduled,
+        schedule: config.schedule,
+        timezone: config.timezone,
+        categories: config.categories,
+        feedSourceIds: config.feedSourceIds,
+        maxArticlesPerCategory: config.maxArticlesPerCategory,
+        maxAgeHours: config.maxAgeHours,
+        enabled: job.enabled
       };
     });
 
+    // Tasks whose stored job was deleted keep running until the next sync or tick stops them
+    this.jobs.forEach(({ config }, jobName) => {
+      if (!status[jobName]) {
+        status[jobName] = { running: true, ...config, enabled: false };
+      }
+    });
+
     return status;
   }
 
   /**
-   * Manually trigger a news import job
+   * Names of the jobs currently scheduled
+   */
+  getScheduledJobNames(): string[] {
+    return [...this.jobs.keys()];
+  }
+
+  /**
+   * Manually trigger a news import job. The run is queued behind any import already in
+   * progress; follow it through the returned queue job
    */
   async triggerManualImport(
     categories: string[] ,
-    maxArticlesPerCategory: number
-  ): Promise<any> {
-    if (this.isRunning) {
-      throw new Error('Another news import job is already running');
-    }
-
-    strapi.log.info('Triggering manual news import');
-    
-    const config: CronJobConfig = {
-      schedule: '',
-      categories,
-      maxArticlesPerCategory,
-      enabled: true
-    };
-
-    await this.executeNewsImport('manual', config);
-    return { success: true, message: 'Manual import completed' };
+    maxArticlesPerCategory: number,
+    trigger: ImportTrigger = 'manual',
+    jobName: string = 'manual',
+    extras: Pick<ImportPayload, 'dryRun' | 'maxAgeHours'> = {}
+  ): Promise<QueueJob> {
+    strapi.log.info(`Triggering manual news import (${jobName})${extras.dryRun ? ' as a dry run' : ''}`);
+
+    return await this.enqueueImport(jobName, { categories, maxArticlesPerCategory, ...extras }, trigger);
   }
 
   /**
-   * Update job configuration
+   * Whether any import is queued or running, on any instance
    */
-  updateJobConfig(jobName: string, config: Partial<CronJobConfig>): void {
-    const configs = this.getDefaultConfigs();
-    const currentConfig = configs[jobName];
-
-    if (!currentConfig) {
-      throw new Error(`Job ${jobName} not found`);
-    }
-
-    const updatedConfig = { ...currentConfig, ...config };
-    
-    // Restart job with new config
-    if (updatedConfig.enabled) {
-      this.startJob(jobName, updatedConfig);
-    } else {
-      this.stopJob(jobName);
-    }
-
-    strapi.log.info(`Updated configuration for job: ${jobName}`);
+  async isJobRunning(): Promise<boolean> {
+    const { queued, running } = await strapi.service('api::queue-job.queue-job').countByStatus();
+    return queued + running > 0;
   }
 
   /**
-   * Get current running status
+   * Queue depth plus this instance's role
    */
-  isJobRunning(): boolean {
-    return this.isRunning;
+  async getQueueStatus(): Promise<Record<string, any>> {
+    const counts = await strapi.service('api::queue-job.queue-job').countByStatus();
+
+    return {
+      ...counts,
+      node: this.nodeId,
+      leader: this.isLeader(),
+      currentJobId: this.worker.getCurrentJobId()
+    };
   }
 }
 
+/**
+ * The instance started in bootstrap, so API calls act on the live scheduler and queue
+ */
+export const getNewsCronJobService = (): NewsCronJobService => {
+  if (!(global as any).newsCronJobService) {
+    (global as any).newsCronJobService = new NewsCronJobService();
+  }
+  return (global as any).newsCronJobService;
+};
+
 export default NewsCronJobService;
\ No newline at end of file
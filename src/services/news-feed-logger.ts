@@ -1,4 +1,4 @@
-interface LogEntry {
+export interface LogEntry {
   timestamp: string;
   level: 'info' | 'warn' | 'error' | 'debug';
   service: string;
@@ -17,14 +17,27 @@ interface JobStats {
   skipped: number;
   errors: number;
   categories: string[];
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
   errorDetails?: any[];
 }
 
+export type LogListener = (entry: LogEntry) => void;
+
 class NewsFeedLogger {
   private logs: LogEntry[] = [];
   private maxLogs: number = 1000;
   private jobStats: Map<string, JobStats> = new Map();
+  private listeners: Set<LogListener> = new Set();
+
+  /**
+   * Be notified of every new entry. Returns the function that unsubscribes
+   */
+  onEntry(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
 
   /**
    * Create a log entry
@@ -64,6 +77,8 @@ class NewsFeedLogger {
       this.logs = this.logs.slice(-this.maxLogs);
     }
 
+    this.listeners.forEach(listener => listener(entry));
+
     // Log to Strapi logger
     const logMessage = `[${entry.service}:${entry.operation}] ${entry.message}`;
     const logData = entry.data ? ` | Data: ${JSON.stringify(entry.data)}` : '';
@@ -169,6 +184,28 @@ class NewsFeedLogger {
     }
   }
 
+  /**
+   * Mark job as cancelled, keeping the counts of what it did before stopping
+   */
+  cancelJob(jobName: string, result: { imported: number; skipped: number; errors: number }): void {
+    const stats = this.jobStats.get(jobName);
+    if (stats) {
+      stats.endTime = Date.now();
+      stats.duration = stats.endTime - stats.startTime;
+      stats.imported = result.imported;
+      stats.skipped = result.skipped;
+      stats.errors = result.errors;
+      stats.status = 'cancelled';
+
+      this.jobStats.set(jobName, stats);
+
+      this.warn('NewsCronJobService', 'cancelJob', `Cancelled job: ${jobName}`, {
+        duration: stats.duration,
+        result
+      });
+    }
+  }
+
   /**
    * Mark job as failed
    */
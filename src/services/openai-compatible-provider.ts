@@ -0,0 +1,69 @@
+/**
+ * OpenAI-compatible LLM Provider
+ * Talks to any chat completions API (OpenAI, Azure-style proxies, Ollama, vLLM, ...)
+ */
+
+import axios from 'axios';
+import { BaseLLMProvider } from './base-llm-provider';
+import type { LLMGenerateOptions, LLMJSONOptions, LLMUsage } from './llm-provider';
+
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(config: { apiKey?: string; baseUrl?: string; model?: string }, defaults: LLMGenerateOptions = {}) {
+    super(defaults);
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.model = config.model || 'gpt-4o-mini';
+  }
+
+  isConfigured(): boolean {
+    // Local OpenAI-compatible servers usually run without a key
+    return !!this.apiKey || !this.baseUrl.startsWith('https://api.openai.com');
+  }
+
+  protected async complete(prompt: string, options: LLMJSONOptions, json: boolean): Promise<{ text: string; usage: LLMUsage }> {
+    const messages = [];
+    if (options.systemInstruction) {
+      messages.push({ role: 'system', content: options.systemInstruction });
+    }
+    messages.push({ role: 'user', content: prompt });
+
+    let responseFormat: Record<string, any> | undefined;
+    if (json) {
+      responseFormat = options.schema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: options.schema } }
+        : { type: 'json_object' };
+    }
+
+    const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+      model: this.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+      ...(responseFormat ? { response_format: responseFormat } : {})
+    }, {
+      timeout: options.timeoutMs,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      }
+    });
+
+    const usage = response.data?.usage || {};
+
+    return {
+      text: response.data?.choices?.[0]?.message?.content || '',
+      usage: {
+        promptTokens: usage.prompt_tokens || 0,
+        completionTokens: usage.completion_tokens || 0,
+        totalTokens: usage.total_tokens || 0
+      }
+    };
+  }
+}
+
+export default OpenAICompatibleProvider;
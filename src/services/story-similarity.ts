@@ -0,0 +1,142 @@
+/**
+ * Story Similarity
+ * Title shingles and content simhash used to spot the same story
+ * syndicated by different sources
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were',
+  'will', 'with', 'after', 'over', 'says', 'new'
+]);
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+export class StorySimilarityService {
+  /**
+   * Normalize a headline: drop the " - Publisher" suffix feeds append, lowercase and tokenize
+   */
+  tokenizeTitle(title: string): string[] {
+    const withoutSource = (title || '').replace(/\s+[-–|]\s+[^-–|]{2,60}$/, '');
+
+    return this.tokenize(withoutSource).filter(word => !STOP_WORDS.has(word));
+  }
+
+  /**
+   * Word shingles of a headline; single words for very short titles
+   */
+  titleShingles(title: string, size: number = 2): Set<string> {
+    const words = this.tokenizeTitle(title);
+    if (words.length <= size) {
+      return new Set(words);
+    }
+
+    return this.shingles(words, size);
+  }
+
+  /**
+   * Jaccard similarity of two headlines' shingles (0..1)
+   */
+  titleSimilarity(a: string, b: string): number {
+    const shinglesA = this.titleShingles(a);
+    const shinglesB = this.titleShingles(b);
+    if (shinglesA.size === 0 || shinglesB.size === 0) {
+      return 0;
+    }
+
+    let intersection = 0;
+    shinglesA.forEach(shingle => {
+      if (shinglesB.has(shingle)) {
+        intersection++;
+      }
+    });
+
+    return intersection / (shinglesA.size + shinglesB.size - intersection);
+  }
+
+  /**
+   * 64-bit simhash of a text's word 3-shingles, as 16 hex characters
+   */
+  simhash(text: string): string {
+    const words = this.tokenize(text);
+    const features = words.length >= 3 ? this.shingles(words, 3) : new Set(words);
+    const weights = new Array(64).fill(0);
+
+    features.forEach(feature => {
+      // Two differently seeded 32-bit FNV-1a hashes give the 64 bits
+      const high = this.fnv1a(feature, FNV_OFFSET);
+      const low = this.fnv1a(feature, FNV_OFFSET ^ 0x5bd1e995);
+
+      for (let bit = 0; bit < 32; bit++) {
+        weights[bit] += (high >>> bit) & 1 ? 1 : -1;
+        weights[bit + 32] += (low >>> bit) & 1 ? 1 : -1;
+      }
+    });
+
+    let high = 0;
+    let low = 0;
+    for (let bit = 0; bit < 32; bit++) {
+      if (weights[bit] > 0) {
+        high |= 1 << bit;
+      }
+      if (weights[bit + 32] > 0) {
+        low |= 1 << bit;
+      }
+    }
+
+    return this.toHex(high) + this.toHex(low);
+  }
+
+  /**
+   * Number of differing bits between two simhashes
+   */
+  hammingDistance(a: string, b: string): number {
+    if (!a || !b || a.length !== 16 || b.length !== 16) {
+      return 64;
+    }
+
+    let distance = 0;
+    for (let offset = 0; offset < 16; offset += 8) {
+      let diff = (parseInt(a.substring(offset, offset + 8), 16) ^ parseInt(b.substring(offset, offset + 8), 16)) >>> 0;
+      while (diff) {
+        diff &= diff - 1;
+        distance++;
+      }
+    }
+
+    return distance;
+  }
+
+  private tokenize(text: string): string[] {
+    return (text || '')
+      .toLowerCase()
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 1);
+  }
+
+  private shingles(words: string[], size: number): Set<string> {
+    const result = new Set<string>();
+    for (let i = 0; i <= words.length - size; i++) {
+      result.add(words.slice(i, i + size).join(' '));
+    }
+    return result;
+  }
+
+  private fnv1a(value: string, seed: number): number {
+    let hash = seed;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, FNV_PRIME);
+    }
+    return hash >>> 0;
+  }
+
+  private toHex(value: number): string {
+    return (value >>> 0).toString(16).padStart(8, '0');
+  }
+}
+
+export default StorySimilarityService;
@@ -0,0 +1,102 @@
+/**
+ * URL Canonicalizer
+ * Reduces the many URLs a story is reachable under (tracking parameters, AMP and mobile
+ * pages, trailing slashes) to one, so the same story is only imported once
+ */
+
+import { createHash } from 'crypto';
+import * as cheerio from 'cheerio';
+
+// Query parameters that only say where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gclsrc', 'msclkid', 'yclid', 'igshid', 'twclid', 'ttclid',
+  'mc_cid', 'mc_eid', 'mkt_tok', 'ocid', 'cmpid', 'ncid', 'smid', 'smtyp', 'sr_share',
+  'ref', 'ref_src', 'ref_url', 'referrer', 'icid', 'guccounter', 'guce_referrer',
+  'guce_referrer_sig', 'outputtype', 'amp', '_ga', '_gl', 'taid', 'fromamp'
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'at_', 'pk_', 'hsa_', 'mtm_', 'oly_', 'vero_', '__twitter'];
+
+// Subdomains that serve a mobile or AMP copy of the main site
+const COPY_SUBDOMAINS = ['m', 'mobile', 'amp'];
+
+/**
+ * Canonical form of an article URL. When the page's HTML is given, its
+ * <link rel="canonical"> is followed first
+ */
+export function canonicalizeUrl(url: string, html?: string): string {
+  const declared = html ? declaredCanonical(url, html) : null;
+  return normalizeUrl(declared || url);
+}
+
+/**
+ * Dedupe key of a canonical URL: a SHA-256 hash that ignores the scheme and a leading www.
+ */
+export function canonicalUrlHash(canonicalUrl: string): string {
+  const key = canonicalUrl.trim().replace(/^https?:\/\//i, '').replace(/^www\./i, '');
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * The canonical URL a page declares, resolved against the page URL. Links to the site's
+ * home page are ignored, some sites declare it on every page
+ */
+function declaredCanonical(pageUrl: string, html: string): string | null {
+  try {
+    const $ = cheerio.load(html);
+    const href = $('link[rel~="canonical"]').first().attr('href')?.trim();
+    if (!href) {
+      return null;
+    }
+
+    const page = new URL(pageUrl);
+    const canonical = new URL(href, page);
+    if (!['http:', 'https:'].includes(canonical.protocol)) {
+      return null;
+    }
+    if (canonical.pathname === '/' && page.pathname !== '/') {
+      return null;
+    }
+    return canonical.toString();
+  } catch {
+    return null;
+  }
+}
+
+function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+
+  const labels = parsed.hostname.split('.');
+  if (labels.length > 2 && COPY_SUBDOMAINS.includes(labels[0])) {
+    parsed.hostname = labels.slice(1).join('.');
+  }
+
+  let path = parsed.pathname
+    .replace(/\/{2,}/g, '/')
+    .replace(/^\/amp(?=\/)/i, '')
+    .replace(/\/amp\/?$/i, '')
+    .replace(/\.amp(?=\.html?$)/i, '')
+    .replace(/\.amp$/i, '');
+  if (path.length > 1) {
+    path = path.replace(/\/+$/, '');
+  }
+  parsed.pathname = path || '/';
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => {
+      const lower = name.toLowerCase();
+      return !TRACKING_PARAMS.has(lower) && !TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+    })
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = '';
+  params.forEach(([name, value]) => parsed.searchParams.append(name, value));
+
+  return parsed.toString();
+}